@@ -51,7 +51,6 @@ const server = new VoiceServer({
   session: {
     maxBytes: 5 * 1024 * 1024,  // 5MB
     maxDurationMs: 60_000,       // 60 seconds
-    maxChunks: 200,
     idleTimeoutMs: 5_000         // 5 seconds
   },
   pipeline: {
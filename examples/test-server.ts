@@ -11,7 +11,6 @@ console.log('Starting esp-voice-server test...\n')
 const sessionManager = new SessionManager({
   maxBytes: 5 * 1024 * 1024,
   maxDurationMs: 60_000,
-  maxChunks: 200,
   idleTimeoutMs: 5_000
 }, {
   onCreate: (session) => {
@@ -0,0 +1,187 @@
+import type { PcmHeader } from '../types/index.js'
+
+/**
+ * Audio format fields needed to size and align sample storage
+ */
+export type SampleFormat = Pick<PcmHeader, 'sample_rate' | 'channels' | 'bits'>
+
+/**
+ * Bytes in one frame (one sample for every channel)
+ */
+export function getFrameBytes(format: Pick<PcmHeader, 'channels' | 'bits'>): number {
+  return Math.max(1, format.channels) * Math.max(1, Math.ceil(format.bits / 8))
+}
+
+/**
+ * Bytes needed to hold a duration of audio, rounded down to whole frames
+ */
+export function getDurationBytes(format: SampleFormat, durationMs: number): number {
+  return Math.floor(format.sample_rate * durationMs / 1000) * getFrameBytes(format)
+}
+
+/**
+ * Sample Buffer
+ * Preallocated PCM storage that appends chunks in place and exposes whole frames as
+ * zero-copy views. A partial frame at the end of a chunk is completed by the next one.
+ */
+export class SampleBuffer {
+  readonly sampleRate: number
+  readonly frameBytes: number
+  private data: Buffer
+  private length = 0
+
+  /**
+   * @param format Audio format
+   * @param capacityBytes Storage size (rounded down to whole frames)
+   */
+  constructor(format: SampleFormat, capacityBytes: number) {
+    this.sampleRate = format.sample_rate
+    this.frameBytes = getFrameBytes(format)
+    const frames = Math.max(0, Math.floor(capacityBytes / this.frameBytes))
+    this.data = Buffer.allocUnsafe(frames * this.frameBytes)
+  }
+
+  /**
+   * Create a buffer that holds a duration of audio
+   * @param format Audio format
+   * @param durationMs Duration to hold
+   * @param maxBytes Upper bound on the storage size
+   */
+  static forDuration(format: SampleFormat, durationMs: number, maxBytes: number = Infinity): SampleBuffer {
+    return new SampleBuffer(format, Math.min(getDurationBytes(format, durationMs), maxBytes))
+  }
+
+  /**
+   * Storage size in bytes
+   */
+  get capacity(): number {
+    return this.data.length
+  }
+
+  /**
+   * Bytes written, including a trailing partial frame
+   */
+  get byteLength(): number {
+    return this.length
+  }
+
+  /**
+   * Whole frames written (samples per channel)
+   */
+  get frames(): number {
+    return Math.floor(this.length / this.frameBytes)
+  }
+
+  /**
+   * Duration of the whole frames written, in milliseconds
+   */
+  get durationMs(): number {
+    return this.sampleRate > 0 ? this.frames * 1000 / this.sampleRate : 0
+  }
+
+  /**
+   * Append a chunk
+   * @returns False, with nothing written, if the chunk does not fit
+   */
+  append(chunk: Buffer): boolean {
+    if (this.length + chunk.length > this.data.length) {
+      return false
+    }
+
+    chunk.copy(this.data, this.length)
+    this.length += chunk.length
+    return true
+  }
+
+  /**
+   * Get whole frames as a view that shares memory with the buffer
+   * @param startFrame First frame (default: 0)
+   * @param endFrame Frame after the last one (default: all written frames)
+   */
+  view(startFrame: number = 0, endFrame: number = this.frames): Buffer {
+    const end = Math.min(endFrame, this.frames) * this.frameBytes
+    const start = Math.min(Math.max(0, startFrame) * this.frameBytes, end)
+    return this.data.subarray(start, end)
+  }
+
+  /**
+   * Discard written audio and keep the storage
+   */
+  reset(): void {
+    this.length = 0
+  }
+}
+
+/**
+ * Pre-roll Buffer
+ * Ring that keeps the most recent audio, so capture started by a trigger (VAD speech
+ * start, wake word) can include what came just before it.
+ */
+export class PreRollBuffer {
+  readonly frameBytes: number
+  private data: Buffer
+  private end = 0
+  private length = 0
+  private written = 0
+
+  /**
+   * @param format Audio format
+   * @param durationMs Audio to keep
+   */
+  constructor(format: SampleFormat, durationMs: number) {
+    this.frameBytes = getFrameBytes(format)
+    this.data = Buffer.allocUnsafe(getDurationBytes(format, durationMs))
+  }
+
+  /**
+   * Bytes held
+   */
+  get byteLength(): number {
+    return this.length
+  }
+
+  /**
+   * Add a chunk, overwriting the oldest audio when full
+   */
+  write(chunk: Buffer): void {
+    const capacity = this.data.length
+    this.written += chunk.length
+    if (capacity === 0) {
+      return
+    }
+
+    const input = chunk.length > capacity ? chunk.subarray(chunk.length - capacity) : chunk
+    const first = Math.min(input.length, capacity - this.end)
+    input.copy(this.data, this.end, 0, first)
+    input.copy(this.data, 0, first)
+
+    this.end = (this.end + input.length) % capacity
+    this.length = Math.min(capacity, this.length + input.length)
+  }
+
+  /**
+   * Copy the held audio in order, starting at a frame boundary
+   */
+  read(): Buffer {
+    const capacity = this.data.length
+    const out = Buffer.allocUnsafe(this.length)
+    const start = capacity > 0 ? (this.end - this.length + capacity) % capacity : 0
+
+    const first = Math.min(this.length, capacity - start)
+    this.data.copy(out, 0, start, start + first)
+    this.data.copy(out, first, 0, this.length - first)
+
+    // Overwriting may have cut the oldest frame
+    const skip = (this.frameBytes - (this.written - this.length) % this.frameBytes) % this.frameBytes
+    return out.subarray(skip)
+  }
+
+  /**
+   * Drop the held audio
+   */
+  clear(): void {
+    this.end = 0
+    this.length = 0
+    this.written = 0
+  }
+}
@@ -1,11 +1,8 @@
-import { exec } from 'child_process'
-import { promisify } from 'util'
-import { writeFileSync, readFileSync, promises as fsPromises } from 'fs'
-import { join } from 'path'
 import type { DecodedAudio } from '../types/index.js'
 import { createPcmWithHeader } from './pcm.js'
-
-const execAsync = promisify(exec)
+import { FfmpegDecoder } from './ffmpeg-decoder.js'
+import { resolveLogger, silentLogger, type Logger } from './logger.js'
+import { resamplePcm16, type ResamplerQuality } from './resampler.js'
 
 /**
  * Configuration for audio conversion
@@ -15,14 +12,21 @@ export interface ConversionConfig {
   ffmpegPath?: string
   /** Target sample rate for conversion */
   targetSampleRate?: number
-  /** Enable verbose logging */
+  /** Logger for conversion details and errors (default: silent) */
+  logger?: Logger
+  /** @deprecated Use `logger`; true logs to the console at debug level */
   verbose?: boolean
-  /** Working directory for temporary files */
+  /** @deprecated Ignored; audio is piped through ffmpeg without temporary files */
   tempDir?: string
+  /** Kill ffmpeg if decoding takes longer than this (default: 30000) */
+  timeoutMs?: number
+  /** Quality of in-process resampling (default: 'medium') */
+  resampleQuality?: ResamplerQuality
 }
 
 /**
  * Convert MP3 buffer to raw PCM data using FFmpeg
+ * Audio is piped through ffmpeg's stdin/stdout; no shell or temporary files are used
  * @param mp3Buffer MP3 audio buffer
  * @param config Conversion configuration
  * @returns Raw PCM buffer or null on error
@@ -31,58 +35,25 @@ export async function convertMp3ToPcm(
   mp3Buffer: Buffer,
   config: ConversionConfig = {}
 ): Promise<Buffer | null> {
-  const {
-    ffmpegPath = 'ffmpeg',
-    targetSampleRate = 16000,
-    verbose = false,
-    tempDir = process.cwd()
-  } = config
-
-  try {
-    const timestamp = Date.now()
-    const tempMp3Path = join(tempDir, `temp_${timestamp}.mp3`)
-    const tempPcmPath = join(tempDir, `temp_${timestamp}.pcm`)
-
-    // Write MP3 buffer to temporary file
-    writeFileSync(tempMp3Path, mp3Buffer)
-
-    // Convert MP3 to PCM using FFmpeg with high-quality resampling
-    const ffmpegCommand = `"${ffmpegPath}" -i "${tempMp3Path}" -ar ${targetSampleRate} -ac 1 -f s16le -acodec pcm_s16le -af "aresample=resampler=soxr:precision=28:dither_method=triangular" -q:a 0 "${tempPcmPath}"`
-
-    if (verbose) {
-      console.log(`Executing: ${ffmpegCommand}`)
-    }
-
-    const { stdout, stderr } = await execAsync(ffmpegCommand)
-
-    if (verbose) {
-      console.log(`FFmpeg stdout: ${stdout}`)
-      console.log(`FFmpeg stderr: ${stderr}`)
-    }
-
-    // Read converted PCM file
-    const pcmData = readFileSync(tempPcmPath)
-
-    if (verbose) {
-      const durationMs = (pcmData.length / 2) / targetSampleRate * 1000
-      console.log(`Converted: ${pcmData.length} bytes, ${pcmData.length / 2} samples, ~${durationMs.toFixed(1)}ms @ ${targetSampleRate}Hz`)
-    }
-
-    // Cleanup temporary files
-    try {
-      await fsPromises.unlink(tempMp3Path)
-      await fsPromises.unlink(tempPcmPath)
-    } catch (cleanupError) {
-      if (verbose) {
-        console.warn('Failed to cleanup temp files:', cleanupError)
-      }
-    }
-
-    return pcmData
-  } catch (error) {
-    console.error('MP3 to PCM conversion error:', error)
-    return null
+  const targetSampleRate = config.targetSampleRate ?? 16000
+  const logger = resolveLogger(config.logger, config.verbose)
+  const decoder = new FfmpegDecoder({
+    ffmpegPath: config.ffmpegPath,
+    timeoutMs: config.timeoutMs,
+    logger
+  })
+
+  const pcmData = await decoder.decode(mp3Buffer, targetSampleRate)
+  if (pcmData) {
+    logger.debug('Converted MP3 to PCM', {
+      stage: 'decode',
+      bytes: pcmData.length,
+      samples: pcmData.length / 2,
+      durationMs: Math.round((pcmData.length / 2) / targetSampleRate * 1000),
+      sampleRate: targetSampleRate
+    })
   }
+  return pcmData
 }
 
 /**
@@ -109,16 +80,16 @@ export async function convertMp3ToPcmWithHeader(
  * Decode WAV buffer to Int16 mono PCM array
  * Supports multiple formats: PCM (8/16/24/32-bit) and IEEE float32
  * @param wavBuffer WAV file buffer
- * @param verbose Enable verbose logging
+ * @param loggerOrVerbose Logger for decoding details and errors (default: silent);
+ *   true (deprecated) logs to the console at debug level
  * @returns Decoded audio data or null on error
  */
-export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false): DecodedAudio | null {
-  if (verbose) {
-    console.log(`decodeWavToInt16Mono: input length=${wavBuffer.length}`)
-  }
+export function decodeWavToInt16Mono(wavBuffer: Buffer, loggerOrVerbose: Logger | boolean = silentLogger): DecodedAudio | null {
+  const logger = toLogger(loggerOrVerbose)
+  logger.debug('Decoding WAV', { stage: 'wav_decode', bytes: wavBuffer.length })
 
   if (wavBuffer.length < 44) {
-    console.error(`WAV buffer too small: ${wavBuffer.length} < 44`)
+    logger.error('WAV buffer too small', { stage: 'wav_decode', bytes: wavBuffer.length })
     return null
   }
 
@@ -126,7 +97,7 @@ export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false
   const wave = wavBuffer.toString('ascii', 8, 12)
 
   if (riff !== 'RIFF' || wave !== 'WAVE') {
-    console.error(`Invalid WAV headers: RIFF='${riff}', WAVE='${wave}'`)
+    logger.error('Invalid WAV headers', { stage: 'wav_decode', riff, wave })
     return null
   }
 
@@ -165,12 +136,12 @@ export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false
   }
 
   if (!fmtFound || !dataFound) {
-    console.error('WAV missing fmt or data chunk')
+    logger.error('WAV missing fmt or data chunk', { stage: 'wav_decode' })
     return null
   }
 
   if (dataOffset < 0 || dataOffset + dataSize > wavBuffer.length) {
-    console.error('WAV data chunk out of bounds')
+    logger.error('WAV data chunk out of bounds', { stage: 'wav_decode' })
     return null
   }
 
@@ -208,7 +179,7 @@ export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false
           // Unsigned 8-bit PCM -> signed 16-bit
           sample = (data[base]! - 128) << 8
         } else {
-          console.error(`Unsupported bit depth: ${bitsPerSample}`)
+          logger.error('Unsupported bit depth', { stage: 'wav_decode', bitsPerSample })
           return null
         }
 
@@ -235,7 +206,7 @@ export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false
       out[i] = Math.max(-32768, Math.min(32767, Math.round(acc / channels)))
     }
   } else {
-    console.error(`Unsupported audio format: ${audioFormat}`)
+    logger.error('Unsupported audio format', { stage: 'wav_decode', audioFormat })
     return null
   }
 
@@ -244,73 +215,69 @@ export function decodeWavToInt16Mono(wavBuffer: Buffer, verbose: boolean = false
 
 /**
  * Resample Int16 mono PCM array
- * Uses linear interpolation for resampling
+ * Uses a polyphase windowed-sinc filter (see StreamResampler)
  * @param pcm Input PCM array
  * @param srcRate Source sample rate
  * @param dstRate Destination sample rate
+ * @param quality Resampler quality preset (default: 'medium')
  * @returns Resampled PCM array
  */
-export function resampleInt16Mono(pcm: Int16Array, srcRate: number, dstRate: number): Int16Array {
+export function resampleInt16Mono(
+  pcm: Int16Array,
+  srcRate: number,
+  dstRate: number,
+  quality: ResamplerQuality = 'medium'
+): Int16Array {
   if (srcRate === dstRate) {
     return pcm
   }
 
-  const ratio = dstRate / srcRate
-  const outLen = Math.max(1, Math.floor(pcm.length * ratio))
-  const out = new Int16Array(outLen)
-
-  for (let i = 0; i < outLen; i++) {
-    const srcPos = i / ratio
-    const i0 = Math.floor(srcPos)
-    const i1 = Math.min(pcm.length - 1, i0 + 1)
-    const t = srcPos - i0
-    const s = (1 - t) * pcm[i0]! + t * pcm[i1]!
-    out[i] = Math.max(-32768, Math.min(32767, Math.round(s)))
-  }
-
-  return out
+  const input = Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength)
+  const output = resamplePcm16(input, srcRate, dstRate, { quality })
+  // Int16Array views need an even byte offset
+  const aligned = output.byteOffset % 2 === 0 ? output : Buffer.from(output)
+  return new Int16Array(aligned.buffer, aligned.byteOffset, aligned.length / 2)
 }
 
 /**
  * Convert WAV buffer to PCM with PCM1 header
  * @param wavBuffer WAV file buffer
  * @param targetRate Target sample rate (default: 16000)
- * @param verbose Enable verbose logging
+ * @param loggerOrVerbose Logger for conversion details and errors (default: silent);
+ *   true (deprecated) logs to the console at debug level
  * @returns PCM buffer with header or null on error
  */
 export function convertWavToPcmWithHeader(
   wavBuffer: Buffer,
   targetRate: number = 16000,
-  verbose: boolean = false
+  loggerOrVerbose: Logger | boolean = silentLogger
 ): Buffer | null {
-  if (verbose) {
-    console.log(`convertWavToPcmWithHeader: input=${wavBuffer.length} bytes, target=${targetRate}Hz`)
-  }
-
-  const decoded = decodeWavToInt16Mono(wavBuffer, verbose)
+  const logger = toLogger(loggerOrVerbose)
+  const decoded = decodeWavToInt16Mono(wavBuffer, logger)
   if (!decoded) {
-    console.error('Failed to decode WAV')
     return null
   }
 
   const { pcm, sampleRate } = decoded
-
-  if (verbose) {
-    console.log(`Decoded: ${pcm.length} samples @ ${sampleRate}Hz`)
-  }
-
   const resampled = resampleInt16Mono(pcm, sampleRate, targetRate)
 
-  if (verbose) {
-    console.log(`Resampled: ${resampled.length} samples @ ${targetRate}Hz`)
-  }
-
   const pcmBuffer = Buffer.from(resampled.buffer, resampled.byteOffset, resampled.byteLength)
   const result = createPcmWithHeader(pcmBuffer, targetRate, 1, 16)
 
-  if (verbose) {
-    console.log(`Final: ${result.length} bytes (header + data)`)
-  }
+  logger.debug('Converted WAV to PCM1', {
+    stage: 'wav_decode',
+    sourceRate: sampleRate,
+    targetRate,
+    samples: resampled.length,
+    bytes: result.length
+  })
 
   return result
 }
+
+/**
+ * Accept a logger or the legacy positional verbose flag
+ */
+function toLogger(loggerOrVerbose: Logger | boolean): Logger {
+  return typeof loggerOrVerbose === 'boolean' ? resolveLogger(undefined, loggerOrVerbose) : loggerOrVerbose
+}
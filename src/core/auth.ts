@@ -0,0 +1,191 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { IncomingMessage } from 'http'
+
+/**
+ * Credentials presented by a client
+ */
+export interface AuthCredentials {
+  /** Token presented by the client */
+  token: string
+  /** Where the token was presented */
+  source: 'upgrade' | 'message'
+  /** HTTP upgrade request (only set for the 'upgrade' source) */
+  request?: IncomingMessage
+}
+
+/**
+ * Successful authentication result
+ */
+export interface AuthResult {
+  /** Authenticated user ID */
+  userId: string
+  /** Device ID, if the token identifies a device */
+  deviceId?: string
+  /** Additional provider-specific claims */
+  claims?: Record<string, unknown>
+}
+
+/**
+ * Authentication provider interface
+ * Validates tokens presented during the HTTP upgrade or with an `AUTH:<token>` message
+ */
+export interface AuthProvider {
+  /**
+   * Provider name for identification
+   */
+  name: string
+
+  /**
+   * Validate credentials
+   * @param credentials Token and its origin
+   * @returns Authentication result or null if the token is invalid
+   */
+  authenticate(credentials: AuthCredentials): Promise<AuthResult | null> | AuthResult | null
+}
+
+/**
+ * Authentication configuration
+ */
+export interface AuthConfig {
+  /** Provider used to validate tokens */
+  provider: AuthProvider
+  /** Reject header/audio frames until authentication succeeds (default: false) */
+  requireAuth?: boolean
+  /** Query string parameter holding the token on upgrade (default: 'token') */
+  queryParam?: string
+  /** Request header holding the token on upgrade; "Bearer " prefix is stripped (default: 'authorization') */
+  headerName?: string
+}
+
+/**
+ * Extract a token from an HTTP upgrade request
+ * @param request Upgrade request
+ * @param queryParam Query string parameter name
+ * @param headerName Header name
+ * @returns Token or null if none was presented
+ */
+export function extractUpgradeToken(
+  request: IncomingMessage,
+  queryParam: string = 'token',
+  headerName: string = 'authorization'
+): string | null {
+  const header = request.headers[headerName.toLowerCase()]
+  const headerValue = Array.isArray(header) ? header[0] : header
+  if (headerValue) {
+    const token = headerValue.replace(/^Bearer\s+/i, '').trim()
+    if (token) {
+      return token
+    }
+  }
+
+  if (request.url) {
+    const url = new URL(request.url, 'http://localhost')
+    const token = url.searchParams.get(queryParam)
+    if (token) {
+      return token
+    }
+  }
+
+  return null
+}
+
+/**
+ * Static allowlist authentication provider
+ * Maps known tokens to user IDs (or full results)
+ */
+export class StaticAuthProvider implements AuthProvider {
+  readonly name = 'static'
+  private tokens: Map<string, AuthResult>
+
+  /**
+   * @param tokens Map or record of token to user ID / auth result
+   */
+  constructor(tokens: Map<string, string | AuthResult> | Record<string, string | AuthResult>) {
+    const entries = tokens instanceof Map ? Array.from(tokens.entries()) : Object.entries(tokens)
+    this.tokens = new Map(
+      entries.map(([token, value]) => [token, typeof value === 'string' ? { userId: value } : value])
+    )
+  }
+
+  authenticate(credentials: AuthCredentials): AuthResult | null {
+    return this.tokens.get(credentials.token) ?? null
+  }
+}
+
+/**
+ * HMAC device token configuration
+ */
+export interface HmacAuthConfig {
+  /** Shared secret used to sign tokens */
+  secret: string | Buffer
+  /** HMAC digest algorithm (default: 'sha256') */
+  algorithm?: string
+  /** Allowed clock skew in milliseconds when checking expiry (default: 30s) */
+  clockSkewMs?: number
+}
+
+/**
+ * HMAC-signed device token provider
+ * Token format: `<deviceId>.<expiresAt unix seconds>.<base64url HMAC of "deviceId.expiresAt">`
+ */
+export class HmacAuthProvider implements AuthProvider {
+  readonly name = 'hmac'
+  private config: Required<HmacAuthConfig>
+
+  constructor(config: HmacAuthConfig) {
+    this.config = {
+      algorithm: 'sha256',
+      clockSkewMs: 30_000,
+      ...config
+    }
+  }
+
+  /**
+   * Issue a signed token for a device
+   * @param deviceId Device identifier (must not contain '.')
+   * @param ttlMs Token lifetime in milliseconds
+   * @returns Signed token
+   */
+  sign(deviceId: string, ttlMs: number): string {
+    if (!deviceId || deviceId.includes('.')) {
+      throw new Error(`Invalid device ID for token: ${deviceId}`)
+    }
+
+    const expiresAt = Math.floor((Date.now() + ttlMs) / 1000)
+    const payload = `${deviceId}.${expiresAt}`
+    return `${payload}.${this.signature(payload)}`
+  }
+
+  authenticate(credentials: AuthCredentials): AuthResult | null {
+    const parts = credentials.token.split('.')
+    if (parts.length !== 3) {
+      return null
+    }
+
+    const [deviceId, expiresAtText, signature] = parts as [string, string, string]
+    const expiresAt = Number(expiresAtText)
+    if (!deviceId || !Number.isFinite(expiresAt)) {
+      return null
+    }
+
+    const expected = Buffer.from(this.signature(`${deviceId}.${expiresAtText}`))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    if (expiresAt * 1000 + this.config.clockSkewMs < Date.now()) {
+      return null
+    }
+
+    return {
+      userId: deviceId,
+      deviceId,
+      claims: { expiresAt }
+    }
+  }
+
+  private signature(payload: string): string {
+    return createHmac(this.config.algorithm, this.config.secret).update(payload).digest('base64url')
+  }
+}
@@ -0,0 +1,103 @@
+import { promises as fsPromises } from 'fs'
+import { createPcmWithHeader } from './pcm.js'
+import { silentLogger, type Logger } from './logger.js'
+import type { AudioContainerFormat } from './decoder.js'
+
+/**
+ * Failures that can be answered with canned audio
+ * - 'no_speech': transcription returned no text
+ * - 'transcription_failed', 'generation_failed', 'synthesis_failed': a pipeline stage failed
+ * - 'limit_exceeded': the utterance hit a session limit
+ */
+export type FailureClass =
+  | 'no_speech'
+  | 'transcription_failed'
+  | 'generation_failed'
+  | 'synthesis_failed'
+  | 'limit_exceeded'
+
+/**
+ * Source of a canned response
+ * - string or `{ text }`: synthesized with the pipeline's synthesis plugin
+ * - `{ file }`: audio file (WAV, or any format a registered decoder handles)
+ * - `{ audio }`: pre-rendered audio buffer
+ */
+export type CannedResponseSource =
+  | string
+  | { text: string }
+  | { file: string }
+  | { audio: Buffer; format?: AudioContainerFormat; sampleRate?: number }
+
+/**
+ * Canned responses by failure class
+ */
+export type CannedResponsesConfig = Partial<Record<FailureClass, CannedResponseSource>>
+
+/**
+ * Renders text or audio to raw 16-bit mono PCM at the downlink rate
+ */
+export type CannedResponseRenderer = (
+  input: string | Buffer,
+  source: { format?: AudioContainerFormat; sampleRate?: number }
+) => Promise<Buffer | null>
+
+/**
+ * Canned Response Cache
+ * Renders the configured responses once and keeps them as PCM1 buffers
+ */
+export class CannedResponseCache {
+  private config: CannedResponsesConfig
+  private logger: Logger
+  private cache: Map<FailureClass, Buffer> = new Map()
+
+  constructor(config: CannedResponsesConfig, logger: Logger = silentLogger) {
+    this.config = config
+    this.logger = logger
+  }
+
+  /**
+   * Render every configured response
+   * Failures are logged and leave that class without audio.
+   * @param render Converts text or audio to downlink PCM
+   * @param sampleRate Downlink sample rate
+   * @returns Number of responses ready
+   */
+  async prepare(render: CannedResponseRenderer, sampleRate: number): Promise<number> {
+    for (const [failure, source] of Object.entries(this.config) as Array<[FailureClass, CannedResponseSource]>) {
+      try {
+        const pcm = await this.render(source, render)
+        if (pcm && pcm.length > 0) {
+          this.cache.set(failure, createPcmWithHeader(pcm, sampleRate, 1, 16))
+        } else {
+          this.logger.warn('Canned response could not be rendered', { failure })
+        }
+      } catch (error) {
+        this.logger.warn('Canned response could not be rendered', { failure, error })
+      }
+    }
+
+    this.logger.debug('Canned responses ready', { count: this.cache.size })
+    return this.cache.size
+  }
+
+  /**
+   * Get the cached response for a failure
+   * @returns PCM1 buffer or undefined when none is configured or rendered
+   */
+  get(failure: FailureClass): Buffer | undefined {
+    return this.cache.get(failure)
+  }
+
+  private async render(source: CannedResponseSource, render: CannedResponseRenderer): Promise<Buffer | null> {
+    if (typeof source === 'string') {
+      return render(source, {})
+    }
+    if ('text' in source) {
+      return render(source.text, {})
+    }
+    if ('file' in source) {
+      return render(await fsPromises.readFile(source.file), {})
+    }
+    return render(source.audio, { format: source.format, sampleRate: source.sampleRate })
+  }
+}
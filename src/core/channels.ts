@@ -0,0 +1,191 @@
+/**
+ * How multi-channel uplink audio is reduced before buffering
+ * - 'keep': pass all channels through interleaved
+ * - 'downmix': average all channels to mono
+ * - 'best_snr': per utterance, keep the channel with the best signal-to-noise ratio
+ * - `{ channel }`: keep one channel (0-based; clamped to the input's channels)
+ */
+export type ChannelPolicy = 'keep' | 'downmix' | 'best_snr' | { channel: number }
+
+/**
+ * Options for reducing channels
+ */
+export interface ChannelMixerOptions {
+  /** Input sample rate in Hz */
+  sampleRate: number
+  /** Audio analyzed before 'best_snr' picks a channel, in milliseconds (default: 300) */
+  decisionMs?: number
+}
+
+const ANALYSIS_FRAME_MS = 20
+/** 'best_snr' keeps its previous channel until a window shows at least this much contrast */
+const MIN_DECISION_SNR_DB = 6
+
+/**
+ * Channel Mixer
+ * Reduces interleaved 16-bit PCM to mono. With 'best_snr', audio at the start of each
+ * utterance is held back in decisionMs windows and analyzed, then emitted on the chosen
+ * channel. Windows without speech keep the previous channel and the decision continues.
+ */
+export class ChannelMixer {
+  readonly channels: number
+  private policy: Exclude<ChannelPolicy, 'keep'>
+  private decisionBytes: number
+  private analysisFrame: number
+  private carry: Buffer = Buffer.alloc(0)
+  private held: Buffer[] = []
+  private heldBytes = 0
+  private selected: number | null = null
+  private deciding: boolean
+
+  /**
+   * @param channels Interleaved channels in the input
+   * @param policy Reduction policy ('keep' needs no mixer)
+   * @param options Input sample rate and 'best_snr' settings
+   */
+  constructor(channels: number, policy: Exclude<ChannelPolicy, 'keep'>, options: ChannelMixerOptions) {
+    this.channels = Math.max(1, channels)
+    this.policy = policy
+    const frameBytes = this.channels * 2
+    this.decisionBytes = Math.max(1, Math.round(options.sampleRate * (options.decisionMs ?? 300) / 1000)) * frameBytes
+    this.analysisFrame = Math.max(1, Math.round(options.sampleRate * ANALYSIS_FRAME_MS / 1000))
+    this.deciding = policy === 'best_snr'
+
+    // A channel beyond the input selects the last one
+    if (typeof policy === 'object') {
+      this.selected = Math.min(Math.max(0, Math.floor(policy.channel)), this.channels - 1)
+    }
+  }
+
+  /**
+   * Channel kept for the current utterance (null for 'downmix' or before 'best_snr' first decides)
+   */
+  getSelectedChannel(): number | null {
+    return this.selected
+  }
+
+  /**
+   * Reduce one chunk
+   * @returns Mono PCM (empty while 'best_snr' holds audio for its decision)
+   */
+  process(chunk: Buffer): Buffer {
+    const frameBytes = this.channels * 2
+    const input = this.carry.length > 0 ? Buffer.concat([this.carry, chunk]) : chunk
+    const whole = input.length - input.length % frameBytes
+    this.carry = Buffer.from(input.subarray(whole))
+    const frames = input.subarray(0, whole)
+
+    if (this.policy === 'downmix') {
+      return this.downmix(frames)
+    }
+    if (!this.deciding) {
+      return this.extract(frames, this.selected ?? 0)
+    }
+
+    this.held.push(frames)
+    this.heldBytes += frames.length
+    return this.heldBytes >= this.decisionBytes ? this.decide(false) : Buffer.alloc(0)
+  }
+
+  /**
+   * Emit held audio at the end of an utterance, deciding on what arrived
+   */
+  flush(): Buffer {
+    this.carry = Buffer.alloc(0)
+    if (!this.deciding || this.heldBytes === 0) {
+      return Buffer.alloc(0)
+    }
+    return this.decide(true)
+  }
+
+  /**
+   * Start a new utterance ('best_snr' chooses again)
+   * @param discard Drop held audio and any partial frame (default: true); pass false when
+   *   the stream continues and held audio will still be emitted
+   */
+  restart(discard: boolean = true): void {
+    if (discard) {
+      this.carry = Buffer.alloc(0)
+      this.held = []
+      this.heldBytes = 0
+    }
+    this.deciding = this.policy === 'best_snr'
+  }
+
+  /**
+   * Analyze held audio and emit it on the chosen channel
+   * @param force Decide even if no channel stands out
+   */
+  private decide(force: boolean): Buffer {
+    const audio = Buffer.concat(this.held)
+    this.held = []
+    this.heldBytes = 0
+
+    const { channel, snr } = this.bestChannel(audio)
+    if (force || this.selected === null || snr >= MIN_DECISION_SNR_DB) {
+      this.selected = channel
+      this.deciding = false
+    }
+    return this.extract(audio, this.selected ?? channel)
+  }
+
+  /**
+   * Estimate each channel's SNR as the energy of its loudest quarter of frames over its quietest quarter
+   */
+  private bestChannel(audio: Buffer): { channel: number; snr: number } {
+    const frameBytes = this.channels * 2
+    const totalFrames = audio.length / frameBytes
+    const windows = Math.max(1, Math.floor(totalFrames / this.analysisFrame))
+    let best = 0
+    let bestSnr = -Infinity
+
+    for (let ch = 0; ch < this.channels; ch++) {
+      const energies: number[] = []
+      for (let w = 0; w < windows; w++) {
+        const end = Math.min(totalFrames, (w + 1) * this.analysisFrame)
+        let sum = 0
+        for (let i = w * this.analysisFrame; i < end; i++) {
+          const sample = audio.readInt16LE(i * frameBytes + ch * 2)
+          sum += sample * sample
+        }
+        energies.push(sum / Math.max(1, end - w * this.analysisFrame))
+      }
+
+      energies.sort((a, b) => a - b)
+      const quarter = Math.max(1, Math.floor(energies.length / 4))
+      const noise = energies.slice(0, quarter).reduce((a, b) => a + b, 0) / quarter
+      const signal = energies.slice(-quarter).reduce((a, b) => a + b, 0) / quarter
+      const snr = 10 * Math.log10((signal + 1) / (noise + 1))
+      if (snr > bestSnr) {
+        bestSnr = snr
+        best = ch
+      }
+    }
+
+    return { channel: best, snr: bestSnr }
+  }
+
+  private extract(frames: Buffer, channel: number): Buffer {
+    const frameBytes = this.channels * 2
+    const count = frames.length / frameBytes
+    const out = Buffer.alloc(count * 2)
+    for (let i = 0; i < count; i++) {
+      out.writeInt16LE(frames.readInt16LE(i * frameBytes + channel * 2), i * 2)
+    }
+    return out
+  }
+
+  private downmix(frames: Buffer): Buffer {
+    const frameBytes = this.channels * 2
+    const count = frames.length / frameBytes
+    const out = Buffer.alloc(count * 2)
+    for (let i = 0; i < count; i++) {
+      let sum = 0
+      for (let ch = 0; ch < this.channels; ch++) {
+        sum += frames.readInt16LE(i * frameBytes + ch * 2)
+      }
+      out.writeInt16LE(Math.round(sum / this.channels), i * 2)
+    }
+    return out
+  }
+}
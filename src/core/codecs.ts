@@ -0,0 +1,244 @@
+import type { AudioCodec } from '../types/index.js'
+
+/**
+ * Format of a compressed uplink stream, taken from its PCM1 header
+ */
+export interface CodecFormat {
+  /** Sample rate in Hz */
+  sampleRate: number
+  /** Interleaved channels */
+  channels: number
+  /** Samples per channel in one frame or block */
+  frameSamps: number
+}
+
+/**
+ * Frame Decoder
+ * Turns compressed uplink messages into interleaved 16-bit little-endian PCM.
+ * One instance per stream; state may carry across calls.
+ */
+export interface FrameDecoder {
+  /**
+   * Decode one binary message
+   * @returns Decoded PCM (may be empty while a partial frame is buffered)
+   */
+  decode(data: Buffer): Buffer
+  /** Drop buffered state before a new stream */
+  reset?(): void
+}
+
+/**
+ * Creates a frame decoder for a stream format
+ */
+export type FrameDecoderFactory = (format: CodecFormat) => FrameDecoder
+
+/**
+ * Frame decoder factories by codec
+ * 'pcm' is never decoded; 'ima_adpcm' is built in; 'opus' needs a factory
+ */
+export type CodecDecoders = Partial<Record<Exclude<AudioCodec, 'pcm'>, FrameDecoderFactory>>
+
+/** Samples per channel in an IMA ADPCM block when the header leaves frame_samps at 0 */
+export const DEFAULT_ADPCM_BLOCK_SAMPLES = 505
+
+const ADPCM_STEPS = [
+  7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45,
+  50, 55, 60, 66, 73, 80, 88, 97, 107, 118, 130, 143, 157, 173, 190, 209, 230,
+  253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796, 876, 963,
+  1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327,
+  3660, 4026, 4428, 4871, 5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442,
+  11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623, 27086, 29794,
+  32767
+]
+
+const ADPCM_INDEX_ADJUST = [-1, -1, -1, -1, 2, 4, 6, 8, -1, -1, -1, -1, 2, 4, 6, 8]
+
+interface AdpcmState {
+  predictor: number
+  index: number
+}
+
+/**
+ * Size in bytes of one IMA ADPCM block
+ * Layout matches WAV (format 0x11): a 4-byte header per channel (int16 predictor,
+ * uint8 step index, uint8 zero), then 4-byte words of 8 nibbles interleaved by channel.
+ * The header holds the first sample, so a block carries blockSamples samples per channel.
+ * @param channels Interleaved channels
+ * @param blockSamples Samples per channel in a block
+ */
+export function getAdpcmBlockSize(channels: number, blockSamples: number): number {
+  return channels * 4 * (1 + Math.ceil((blockSamples - 1) / 8))
+}
+
+/**
+ * IMA ADPCM Decoder
+ * Decodes whole blocks and keeps partial blocks until the rest arrives
+ */
+export class ImaAdpcmDecoder implements FrameDecoder {
+  readonly channels: number
+  readonly blockSamples: number
+  readonly blockSize: number
+  private carry: Buffer = Buffer.alloc(0)
+
+  constructor(format: CodecFormat) {
+    this.channels = Math.max(1, format.channels)
+    this.blockSamples = format.frameSamps > 1 ? format.frameSamps : DEFAULT_ADPCM_BLOCK_SAMPLES
+    this.blockSize = getAdpcmBlockSize(this.channels, this.blockSamples)
+  }
+
+  decode(data: Buffer): Buffer {
+    const input = this.carry.length > 0 ? Buffer.concat([this.carry, data]) : data
+    const blocks = Math.floor(input.length / this.blockSize)
+    this.carry = Buffer.from(input.subarray(blocks * this.blockSize))
+
+    const frameBytes = this.channels * 2
+    const out = Buffer.alloc(blocks * this.blockSamples * frameBytes)
+    for (let b = 0; b < blocks; b++) {
+      this.decodeBlock(input, b * this.blockSize, out, b * this.blockSamples * frameBytes)
+    }
+    return out
+  }
+
+  reset(): void {
+    this.carry = Buffer.alloc(0)
+  }
+
+  private decodeBlock(input: Buffer, offset: number, out: Buffer, outOffset: number): void {
+    const channels = this.channels
+    const dataStart = offset + channels * 4
+    const wordsPerChannel = Math.ceil((this.blockSamples - 1) / 8)
+
+    for (let ch = 0; ch < channels; ch++) {
+      const state: AdpcmState = {
+        predictor: input.readInt16LE(offset + ch * 4),
+        index: Math.min(88, input.readUInt8(offset + ch * 4 + 2))
+      }
+      out.writeInt16LE(state.predictor, outOffset + ch * 2)
+
+      let sample = 1
+      for (let word = 0; word < wordsPerChannel; word++) {
+        const wordOffset = dataStart + (word * channels + ch) * 4
+        for (let i = 0; i < 8 && sample < this.blockSamples; i++) {
+          const byte = input[wordOffset + (i >> 1)]!
+          const nibble = i % 2 === 0 ? byte & 0x0f : byte >> 4
+          out.writeInt16LE(decodeNibble(state, nibble), outOffset + (sample * channels + ch) * 2)
+          sample++
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Encode interleaved 16-bit PCM as IMA ADPCM blocks (for device simulators and tests)
+ * A partial last block is padded with silence.
+ * @param pcm Interleaved 16-bit little-endian PCM
+ * @param channels Interleaved channels
+ * @param blockSamples Samples per channel in a block (the header's frame_samps)
+ * @returns Encoded blocks
+ */
+export function encodeImaAdpcm(
+  pcm: Buffer,
+  channels: number = 1,
+  blockSamples: number = DEFAULT_ADPCM_BLOCK_SAMPLES
+): Buffer {
+  const frames = Math.floor(pcm.length / (channels * 2))
+  const blocks = Math.ceil(frames / blockSamples)
+  const blockSize = getAdpcmBlockSize(channels, blockSamples)
+  const wordsPerChannel = Math.ceil((blockSamples - 1) / 8)
+  const out = Buffer.alloc(blocks * blockSize)
+  const indexes = new Array<number>(channels).fill(0)
+
+  const sampleAt = (frame: number, ch: number): number =>
+    frame < frames ? pcm.readInt16LE((frame * channels + ch) * 2) : 0
+
+  for (let b = 0; b < blocks; b++) {
+    const offset = b * blockSize
+    const first = b * blockSamples
+
+    for (let ch = 0; ch < channels; ch++) {
+      const state: AdpcmState = { predictor: sampleAt(first, ch), index: indexes[ch]! }
+      out.writeInt16LE(state.predictor, offset + ch * 4)
+      out.writeUInt8(state.index, offset + ch * 4 + 2)
+
+      let sample = 1
+      for (let word = 0; word < wordsPerChannel; word++) {
+        const wordOffset = offset + channels * 4 + (word * channels + ch) * 4
+        for (let i = 0; i < 8 && sample < blockSamples; i++) {
+          const nibble = encodeNibble(state, sampleAt(first + sample, ch))
+          out[wordOffset + (i >> 1)]! |= i % 2 === 0 ? nibble : nibble << 4
+          sample++
+        }
+      }
+      indexes[ch] = state.index
+    }
+  }
+
+  return out
+}
+
+/**
+ * Create a frame decoder for a codec
+ * @param codec Codec declared in the header
+ * @param format Stream format
+ * @param decoders Configured factories (override the built-in IMA ADPCM decoder)
+ * @returns Decoder or null if the codec has no decoder
+ */
+export function createFrameDecoder(
+  codec: Exclude<AudioCodec, 'pcm'>,
+  format: CodecFormat,
+  decoders: CodecDecoders = {}
+): FrameDecoder | null {
+  const factory = decoders[codec]
+  if (factory) {
+    return factory(format)
+  }
+  if (codec === 'ima_adpcm') {
+    return new ImaAdpcmDecoder(format)
+  }
+  return null
+}
+
+function decodeNibble(state: AdpcmState, nibble: number): number {
+  const step = ADPCM_STEPS[state.index]!
+  let diff = step >> 3
+  if (nibble & 4) {
+    diff += step
+  }
+  if (nibble & 2) {
+    diff += step >> 1
+  }
+  if (nibble & 1) {
+    diff += step >> 2
+  }
+
+  state.predictor += nibble & 8 ? -diff : diff
+  state.predictor = Math.max(-32768, Math.min(32767, state.predictor))
+  state.index = Math.max(0, Math.min(88, state.index + ADPCM_INDEX_ADJUST[nibble]!))
+  return state.predictor
+}
+
+function encodeNibble(state: AdpcmState, sample: number): number {
+  const step = ADPCM_STEPS[state.index]!
+  let diff = sample - state.predictor
+  let nibble = 0
+  if (diff < 0) {
+    nibble = 8
+    diff = -diff
+  }
+  if (diff >= step) {
+    nibble |= 4
+    diff -= step
+  }
+  if (diff >= step >> 1) {
+    nibble |= 2
+    diff -= step >> 1
+  }
+  if (diff >= step >> 2) {
+    nibble |= 1
+  }
+
+  // Track the decoder's reconstruction so errors do not accumulate
+  decodeNibble(state, nibble)
+  return nibble
+}
@@ -0,0 +1,214 @@
+import { promises as fsPromises } from 'fs'
+import { join } from 'path'
+
+/**
+ * Single message in a conversation history
+ */
+export interface ConversationMessage {
+  /** Speaker role */
+  role: 'user' | 'assistant'
+  /** Message text */
+  content: string
+  /** Unix timestamp in milliseconds */
+  timestamp?: number
+}
+
+/**
+ * Conversation history storage interface
+ * Keys are derived from conversationId (or userId when no conversation is set)
+ */
+export interface ConversationStore {
+  /**
+   * Load stored messages for a conversation, oldest first
+   * @param key Conversation key
+   * @param limit Maximum number of most recent messages to return
+   */
+  load(key: string, limit?: number): Promise<ConversationMessage[]>
+
+  /**
+   * Append messages to a conversation
+   * @param key Conversation key
+   * @param messages Messages to append, oldest first
+   */
+  append(key: string, messages: ConversationMessage[]): Promise<void>
+
+  /**
+   * Remove all messages for a conversation
+   * @param key Conversation key
+   */
+  clear(key: string): Promise<void>
+}
+
+/**
+ * History budget configuration
+ */
+export interface HistoryConfig {
+  /** Store used to load and persist history */
+  store: ConversationStore
+  /** Maximum user/assistant turns passed to the conversation plugin (default: 10) */
+  maxTurns?: number
+  /** Maximum estimated tokens passed to the conversation plugin (default: unlimited) */
+  maxTokens?: number
+  /** Token estimator (default: ~4 characters per token) */
+  estimateTokens?: (text: string) => number
+}
+
+/**
+ * Build the store key for a conversation
+ * @returns Key, or null when neither a conversation nor a user is known
+ */
+export function getConversationKey(conversationId?: string, userId?: string): string | null {
+  if (conversationId) {
+    return `conversation:${conversationId}`
+  }
+  if (userId) {
+    return `user:${userId}`
+  }
+  return null
+}
+
+/**
+ * Trim history to the most recent messages that fit the turn and token budget
+ * @param messages Messages, oldest first
+ * @param maxTurns Maximum user/assistant turns
+ * @param maxTokens Maximum estimated tokens
+ * @param estimateTokens Token estimator
+ * @returns Trimmed messages, oldest first
+ */
+export function trimHistory(
+  messages: ConversationMessage[],
+  maxTurns: number = 10,
+  maxTokens: number = Infinity,
+  estimateTokens: (text: string) => number = (text) => Math.ceil(text.length / 4)
+): ConversationMessage[] {
+  const result: ConversationMessage[] = []
+  let tokens = 0
+
+  for (let i = messages.length - 1; i >= 0 && result.length < maxTurns * 2; i--) {
+    const message = messages[i]!
+    tokens += estimateTokens(message.content)
+    if (tokens > maxTokens) {
+      break
+    }
+    result.unshift(message)
+  }
+
+  // Do not start the window with a dangling assistant reply
+  while (result.length > 0 && result[0]!.role === 'assistant') {
+    result.shift()
+  }
+
+  return result
+}
+
+/**
+ * In-memory conversation store
+ * History is lost on restart; suitable for development and tests
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, ConversationMessage[]> = new Map()
+  private maxMessages: number
+
+  /**
+   * @param maxMessages Maximum messages kept per conversation (default: 200)
+   */
+  constructor(maxMessages: number = 200) {
+    this.maxMessages = maxMessages
+  }
+
+  async load(key: string, limit?: number): Promise<ConversationMessage[]> {
+    const messages = this.conversations.get(key) ?? []
+    return limit !== undefined ? messages.slice(-limit) : [...messages]
+  }
+
+  async append(key: string, messages: ConversationMessage[]): Promise<void> {
+    const existing = this.conversations.get(key) ?? []
+    this.conversations.set(key, [...existing, ...messages].slice(-this.maxMessages))
+  }
+
+  async clear(key: string): Promise<void> {
+    this.conversations.delete(key)
+  }
+}
+
+/**
+ * JSON file conversation store
+ * Stores one JSON file per conversation in a directory
+ */
+export class JsonFileConversationStore implements ConversationStore {
+  private directory: string
+  private maxMessages: number
+  private writes: Map<string, Promise<void>> = new Map()
+
+  /**
+   * @param directory Directory for conversation files (created on first write)
+   * @param maxMessages Maximum messages kept per conversation (default: 200)
+   */
+  constructor(directory: string, maxMessages: number = 200) {
+    this.directory = directory
+    this.maxMessages = maxMessages
+  }
+
+  async load(key: string, limit?: number): Promise<ConversationMessage[]> {
+    // Wait for pending writes to this conversation
+    await this.writes.get(key)
+
+    const messages = await this.read(key)
+    return limit !== undefined ? messages.slice(-limit) : messages
+  }
+
+  async append(key: string, messages: ConversationMessage[]): Promise<void> {
+    await this.enqueue(key, async () => {
+      const existing = await this.read(key)
+      await this.write(key, [...existing, ...messages].slice(-this.maxMessages))
+    })
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.enqueue(key, async () => {
+      await fsPromises.rm(this.filePath(key), { force: true })
+    })
+  }
+
+  /**
+   * Serialize file operations per conversation
+   */
+  private enqueue(key: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(key) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(operation)
+    this.writes.set(key, next)
+
+    return next.finally(() => {
+      if (this.writes.get(key) === next) {
+        this.writes.delete(key)
+      }
+    })
+  }
+
+  private async read(key: string): Promise<ConversationMessage[]> {
+    try {
+      const content = await fsPromises.readFile(this.filePath(key), 'utf8')
+      const parsed = JSON.parse(content) as { messages?: ConversationMessage[] }
+      return Array.isArray(parsed.messages) ? parsed.messages : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+  }
+
+  private async write(key: string, messages: ConversationMessage[]): Promise<void> {
+    await fsPromises.mkdir(this.directory, { recursive: true })
+
+    // Write to a temporary file and rename so readers never see partial JSON
+    const path = this.filePath(key)
+    const tempPath = `${path}.${process.pid}.tmp`
+    await fsPromises.writeFile(tempPath, JSON.stringify({ key, messages }, null, 2))
+    await fsPromises.rename(tempPath, path)
+  }
+
+  private filePath(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`)
+  }
+}
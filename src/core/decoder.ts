@@ -0,0 +1,276 @@
+import { extractPcmData } from './pcm.js'
+import { decodeWavToInt16Mono, resampleInt16Mono } from './audio-conversion.js'
+import { FfmpegDecoder, type FfmpegDecoderConfig } from './ffmpeg-decoder.js'
+import { silentLogger, type Logger } from './logger.js'
+import type { ResamplerQuality } from './resampler.js'
+
+/**
+ * Audio container formats a synthesis plugin may produce
+ * - 'pcm1': PCM1 header followed by PCM data
+ * - 'pcm': Raw 16-bit little-endian mono PCM
+ * - 'wav': RIFF/WAVE file
+ * - 'mp3': MPEG audio
+ * - 'ogg': Ogg container (Opus or Vorbis)
+ */
+export type AudioContainerFormat = 'pcm1' | 'pcm' | 'wav' | 'mp3' | 'ogg'
+
+/**
+ * Options for a single decode call
+ */
+export interface DecodeOptions {
+  /** Sample rate of raw 'pcm' input (default: target rate) */
+  sampleRate?: number
+  /** Aborts the decode; the result is null */
+  signal?: AbortSignal
+  /** Quality of in-process resampling (default: 'medium') */
+  quality?: ResamplerQuality
+}
+
+/**
+ * Audio Decoder
+ * Converts one encoded buffer to 16-bit little-endian mono PCM at the target rate.
+ * Implement this to plug in pure-JS or WASM decoders.
+ */
+export interface AudioDecoder {
+  /** Decoder name for logs */
+  readonly name: string
+  /**
+   * Decode audio
+   * @param buffer Encoded audio
+   * @param targetRate Output sample rate
+   * @param options Decode options
+   * @returns Raw PCM buffer or null on error
+   */
+  decode(buffer: Buffer, targetRate: number, options?: DecodeOptions): Promise<Buffer | null>
+}
+
+/**
+ * Detect audio container format from leading bytes
+ * @param buffer Audio data (at least the first few bytes)
+ * @returns Detected format ('pcm' when no known signature matches)
+ */
+export function detectAudioFormat(buffer: Buffer): AudioContainerFormat {
+  if (buffer.length >= 4) {
+    const magic = buffer.toString('ascii', 0, 4)
+    if (magic === 'PCM1') {
+      return 'pcm1'
+    }
+    if (magic === 'RIFF') {
+      return 'wav'
+    }
+    if (magic === 'OggS') {
+      return 'ogg'
+    }
+  }
+
+  if (buffer.length >= 3 && buffer.toString('ascii', 0, 3) === 'ID3') {
+    return 'mp3'
+  }
+
+  if (isMpegFrameHeader(buffer)) {
+    return 'mp3'
+  }
+
+  return 'pcm'
+}
+
+/**
+ * Check for an MPEG audio frame header
+ * Frame sync alone (11 set bits) also matches raw PCM that starts with a small negative
+ * sample, so the version, layer, bitrate and sample-rate fields must be valid too.
+ */
+function isMpegFrameHeader(buffer: Buffer): boolean {
+  if (buffer.length < 4 || buffer[0] !== 0xff || (buffer[1]! & 0xe0) !== 0xe0) {
+    return false
+  }
+
+  const version = (buffer[1]! >> 3) & 0x03
+  const layer = (buffer[1]! >> 1) & 0x03
+  const bitrateIndex = buffer[2]! >> 4
+  const sampleRateIndex = (buffer[2]! >> 2) & 0x03
+  return version !== 0x01 && layer !== 0x00 && bitrateIndex !== 0x0f && sampleRateIndex !== 0x03
+}
+
+/**
+ * Downmix interleaved 16-bit PCM to mono and resample
+ * @param data Interleaved 16-bit little-endian PCM
+ * @param channels Number of channels in data
+ * @param srcRate Sample rate of data
+ * @param dstRate Output sample rate
+ * @param quality Resampler quality preset (default: 'medium')
+ * @returns Mono 16-bit PCM at dstRate
+ */
+export function toMonoPcm16(
+  data: Buffer,
+  channels: number,
+  srcRate: number,
+  dstRate: number,
+  quality: ResamplerQuality = 'medium'
+): Buffer {
+  const frames = Math.floor(data.length / (2 * channels))
+  let mono: Int16Array = new Int16Array(frames)
+
+  for (let i = 0; i < frames; i++) {
+    let acc = 0
+    for (let ch = 0; ch < channels; ch++) {
+      acc += data.readInt16LE((i * channels + ch) * 2)
+    }
+    mono[i] = Math.round(acc / channels)
+  }
+
+  if (srcRate !== dstRate && mono.length > 0) {
+    mono = resampleInt16Mono(mono, srcRate, dstRate, quality)
+  }
+
+  return Buffer.from(mono.buffer, mono.byteOffset, mono.byteLength)
+}
+
+/**
+ * Decoder for raw 16-bit mono PCM (resampling only)
+ */
+export class PcmDecoder implements AudioDecoder {
+  readonly name = 'pcm'
+
+  async decode(buffer: Buffer, targetRate: number, options: DecodeOptions = {}): Promise<Buffer | null> {
+    const aligned = buffer.subarray(0, buffer.length - (buffer.length % 2))
+    return toMonoPcm16(aligned, 1, options.sampleRate ?? targetRate, targetRate, options.quality)
+  }
+}
+
+/**
+ * Decoder for PCM1 buffers (header followed by 16-bit PCM)
+ */
+export class Pcm1Decoder implements AudioDecoder {
+  readonly name = 'pcm1'
+
+  async decode(buffer: Buffer, targetRate: number, options: DecodeOptions = {}): Promise<Buffer | null> {
+    const extracted = extractPcmData(buffer)
+    if (!extracted || extracted.format.bitsPerSample !== 16) {
+      return null
+    }
+    const { channels, sampleRate } = extracted.format
+    return toMonoPcm16(extracted.data, channels, sampleRate, targetRate, options.quality)
+  }
+}
+
+/**
+ * Decoder for WAV files (PCM 8/16/24/32-bit and float32)
+ */
+export class WavDecoder implements AudioDecoder {
+  readonly name = 'wav'
+  private logger: Logger
+
+  constructor(logger: Logger = silentLogger) {
+    this.logger = logger
+  }
+
+  async decode(buffer: Buffer, targetRate: number, options: DecodeOptions = {}): Promise<Buffer | null> {
+    const decoded = decodeWavToInt16Mono(buffer, this.logger)
+    if (!decoded) {
+      return null
+    }
+
+    const resampled = resampleInt16Mono(decoded.pcm, decoded.sampleRate, targetRate, options.quality)
+    return Buffer.from(resampled.buffer, resampled.byteOffset, resampled.byteLength)
+  }
+}
+
+/**
+ * Decoder Registry
+ * Maps container formats to decoders
+ */
+export class DecoderRegistry {
+  private decoders: Map<string, AudioDecoder> = new Map()
+
+  /**
+   * Register a decoder for a format, replacing any existing one
+   */
+  register(format: AudioContainerFormat | string, decoder: AudioDecoder): this {
+    this.decoders.set(format, decoder)
+    return this
+  }
+
+  /**
+   * Remove the decoder for a format
+   */
+  unregister(format: AudioContainerFormat | string): boolean {
+    return this.decoders.delete(format)
+  }
+
+  /**
+   * Get the decoder for a format
+   */
+  get(format: AudioContainerFormat | string): AudioDecoder | undefined {
+    return this.decoders.get(format)
+  }
+
+  /**
+   * List formats with a registered decoder
+   */
+  formats(): string[] {
+    return Array.from(this.decoders.keys())
+  }
+}
+
+/**
+ * Options for the default decoder registry
+ */
+export interface DefaultDecodersConfig extends FfmpegDecoderConfig {
+  /** Formats decoded through ffmpeg (default: ['mp3', 'ogg']) */
+  ffmpegFormats?: string[]
+}
+
+/**
+ * Create a registry with the built-in decoders
+ * PCM, PCM1 and WAV are decoded in-process; compressed formats go through ffmpeg
+ * @param config Decoder settings
+ * @returns Decoder registry
+ */
+export function createDefaultDecoders(config: DefaultDecodersConfig = {}): DecoderRegistry {
+  const { ffmpegFormats = ['mp3', 'ogg'], ...ffmpegConfig } = config
+  const registry = new DecoderRegistry()
+    .register('pcm', new PcmDecoder())
+    .register('pcm1', new Pcm1Decoder())
+    .register('wav', new WavDecoder(config.logger))
+
+  const ffmpeg = new FfmpegDecoder(ffmpegConfig)
+  for (const format of ffmpegFormats) {
+    registry.register(format, ffmpeg)
+  }
+  return registry
+}
+
+let defaultRegistry: DecoderRegistry | null = null
+
+/**
+ * Options for decodeToPcm16
+ */
+export interface DecodeToPcmOptions extends DecodeOptions {
+  /** Container format (detected when omitted) */
+  format?: AudioContainerFormat | string
+  /** Decoders to use (default: createDefaultDecoders()) */
+  decoders?: DecoderRegistry
+}
+
+/**
+ * Decode audio in any registered format to 16-bit mono PCM
+ * @param buffer Encoded audio
+ * @param targetRate Output sample rate
+ * @param options Format, decoder registry and abort signal
+ * @returns Raw PCM buffer or null on error or unsupported format
+ */
+export async function decodeToPcm16(
+  buffer: Buffer,
+  targetRate: number,
+  options: DecodeToPcmOptions = {}
+): Promise<Buffer | null> {
+  const { format = detectAudioFormat(buffer), decoders, ...decodeOptions } = options
+  const registry = decoders ?? (defaultRegistry ??= createDefaultDecoders())
+
+  const decoder = registry.get(format)
+  if (!decoder) {
+    return null
+  }
+
+  return decoder.decode(buffer, targetRate, decodeOptions)
+}
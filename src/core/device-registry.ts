@@ -0,0 +1,245 @@
+import type { WebSocket } from 'ws'
+import type { AudioFormat } from '../types/index.js'
+
+/**
+ * Device registry configuration
+ */
+export interface DeviceRegistryConfig {
+  /** Forget disconnected devices after this many milliseconds (default: never) */
+  forgetAfterMs?: number
+}
+
+/**
+ * Known device state
+ */
+export interface DeviceRecord {
+  /** Device identifier from hello or authentication */
+  deviceId: string
+  /** Firmware version reported in hello */
+  firmwareVersion?: string
+  /** Capabilities reported in hello */
+  capabilities?: string[]
+  /** Remote IP address of the latest connection */
+  ip?: string
+  /** Audio format of the latest PCM header */
+  audioFormat?: AudioFormat
+  /** First time the device was seen (ms) */
+  firstSeen: number
+  /** Last activity time (ms) */
+  lastSeen: number
+  /** Whether the device is currently connected */
+  connected: boolean
+  /** Current session ID while connected */
+  sessionId?: string
+  /** Conversation restored on reconnect */
+  conversationId?: string
+  /** User ID restored on reconnect */
+  userId?: string
+  /** Groups the device belongs to (for targeted announcements) */
+  groups: string[]
+  /** Application data kept across reconnects */
+  data: Record<string, unknown>
+}
+
+/**
+ * Device Registry
+ * Tracks devices by ID across reconnects and maps them to their live connection
+ */
+export class DeviceRegistry {
+  private devices: Map<string, DeviceRecord> = new Map()
+  private connections: Map<string, WebSocket> = new Map()
+  private connectionDevices: WeakMap<WebSocket, string> = new WeakMap()
+  private config: DeviceRegistryConfig
+
+  constructor(config: DeviceRegistryConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * Bind a connection to a device, creating the record on first sight
+   * @returns The device record and the connection it replaced, if any
+   */
+  attach(
+    deviceId: string,
+    ws: WebSocket,
+    info: Partial<Pick<DeviceRecord, 'firmwareVersion' | 'capabilities' | 'ip' | 'sessionId'>> = {}
+  ): { record: DeviceRecord; replaced?: WebSocket } {
+    this.prune()
+
+    const now = Date.now()
+    let record = this.devices.get(deviceId)
+    if (!record) {
+      record = {
+        deviceId,
+        firstSeen: now,
+        lastSeen: now,
+        connected: true,
+        groups: [],
+        data: {}
+      }
+      this.devices.set(deviceId, record)
+    }
+
+    const previous = this.connections.get(deviceId)
+    const replaced = previous && previous !== ws ? previous : undefined
+
+    // Only overwrite fields the new connection reported
+    for (const [key, value] of Object.entries(info)) {
+      if (value !== undefined) {
+        ;(record as unknown as Record<string, unknown>)[key] = value
+      }
+    }
+    record.connected = true
+    record.lastSeen = now
+
+    this.connections.set(deviceId, ws)
+    this.connectionDevices.set(ws, deviceId)
+
+    return { record, replaced }
+  }
+
+  /**
+   * Mark a device as disconnected if the connection is still its current one
+   */
+  detach(ws: WebSocket): DeviceRecord | undefined {
+    const deviceId = this.connectionDevices.get(ws)
+    if (!deviceId) {
+      return undefined
+    }
+
+    this.connectionDevices.delete(ws)
+
+    const record = this.devices.get(deviceId)
+    if (!record || this.connections.get(deviceId) !== ws) {
+      return undefined
+    }
+
+    this.connections.delete(deviceId)
+    record.connected = false
+    record.sessionId = undefined
+    record.lastSeen = Date.now()
+    return record
+  }
+
+  /**
+   * Update fields of a device record
+   */
+  update(deviceId: string, patch: Partial<Omit<DeviceRecord, 'deviceId' | 'firstSeen'>>): DeviceRecord | undefined {
+    const record = this.devices.get(deviceId)
+    if (!record) {
+      return undefined
+    }
+
+    Object.assign(record, patch)
+    record.lastSeen = Date.now()
+    return record
+  }
+
+  /**
+   * Record activity on a connection
+   */
+  touch(ws: WebSocket): void {
+    const record = this.findByConnection(ws)
+    if (record) {
+      record.lastSeen = Date.now()
+    }
+  }
+
+  /**
+   * Get a device by ID
+   */
+  get(deviceId: string): DeviceRecord | undefined {
+    return this.devices.get(deviceId)
+  }
+
+  /**
+   * Get the device bound to a connection
+   */
+  findByConnection(ws: WebSocket): DeviceRecord | undefined {
+    const deviceId = this.connectionDevices.get(ws)
+    return deviceId ? this.devices.get(deviceId) : undefined
+  }
+
+  /**
+   * Get the live connection of a device
+   */
+  getConnection(deviceId: string): WebSocket | undefined {
+    return this.connections.get(deviceId)
+  }
+
+  /**
+   * List known devices
+   * @param connectedOnly Only include connected devices
+   */
+  list(connectedOnly: boolean = false): DeviceRecord[] {
+    this.prune()
+
+    const records = Array.from(this.devices.values())
+    return connectedOnly ? records.filter(record => record.connected) : records
+  }
+
+  /**
+   * Add a device to a group
+   */
+  addToGroup(deviceId: string, group: string): boolean {
+    const record = this.devices.get(deviceId)
+    if (!record) {
+      return false
+    }
+
+    if (!record.groups.includes(group)) {
+      record.groups.push(group)
+    }
+    return true
+  }
+
+  /**
+   * Remove a device from a group
+   */
+  removeFromGroup(deviceId: string, group: string): boolean {
+    const record = this.devices.get(deviceId)
+    if (!record) {
+      return false
+    }
+
+    record.groups = record.groups.filter(name => name !== group)
+    return true
+  }
+
+  /**
+   * List devices in a group
+   * @param connectedOnly Only include connected devices
+   */
+  listGroup(group: string, connectedOnly: boolean = false): DeviceRecord[] {
+    return this.list(connectedOnly).filter(record => record.groups.includes(group))
+  }
+
+  /**
+   * Forget a device
+   */
+  remove(deviceId: string): boolean {
+    const ws = this.connections.get(deviceId)
+    if (ws) {
+      this.connectionDevices.delete(ws)
+      this.connections.delete(deviceId)
+    }
+    return this.devices.delete(deviceId)
+  }
+
+  /**
+   * Drop disconnected devices past the retention window
+   */
+  private prune(): void {
+    const forgetAfterMs = this.config.forgetAfterMs
+    if (forgetAfterMs === undefined) {
+      return
+    }
+
+    const cutoff = Date.now() - forgetAfterMs
+    for (const [deviceId, record] of this.devices) {
+      if (!record.connected && record.lastSeen < cutoff) {
+        this.devices.delete(deviceId)
+      }
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import { createPcmHeader, extractPcmData } from './pcm.js'
+import type { ConversionConfig } from './audio-conversion.js'
+import {
+  createDefaultDecoders,
+  decodeToPcm16,
+  detectAudioFormat,
+  type AudioContainerFormat,
+  type DecoderRegistry
+} from './decoder.js'
+import { resolveLogger } from './logger.js'
+import { StreamResampler } from './resampler.js'
+
+/**
+ * Downlink audio framing configuration
+ */
+export interface DownlinkConfig {
+  /** Output sample rate sent to the device (default: 16000) */
+  sampleRate?: number
+  /** Samples per binary frame (default: 320) */
+  frameSamps?: number
+  /** Pace frames at real time (default: true) */
+  pacing?: boolean
+  /** Frames sent ahead of real time to prefill the device buffer (default: 5) */
+  leadFrames?: number
+  /** Conversion settings for ffmpeg decoding */
+  conversion?: ConversionConfig
+  /** Decoders for compressed formats (default: built-in decoders using `conversion`) */
+  decoders?: DecoderRegistry
+}
+
+/**
+ * Options for a single downlink stream
+ */
+export interface DownlinkStreamOptions {
+  /** Stops sending frames when aborted; the END marker is still sent to close the stream */
+  signal?: AbortSignal
+}
+
+/**
+ * Source audio description for downlink streaming
+ */
+export interface DownlinkSource {
+  /** Container format (detected from the first chunk when omitted) */
+  format?: AudioContainerFormat
+  /** Sample rate of raw 'pcm' input (default: output sample rate) */
+  sampleRate?: number
+}
+
+/**
+ * Downlink Framer
+ * Sends a PCM1 header, fixed-size PCM frames paced at real time, and an END marker
+ */
+export class DownlinkFramer {
+  private config: Required<Omit<DownlinkConfig, 'conversion' | 'decoders'>>
+  private send: (data: Buffer) => boolean
+  private frameBytes: number
+  private pending: Buffer = Buffer.alloc(0)
+  private startTime = 0
+  private samplesSent = 0
+  private started = false
+  private closed = false
+  private signal?: AbortSignal
+
+  constructor(send: (data: Buffer) => boolean, config: DownlinkConfig = {}, options: DownlinkStreamOptions = {}) {
+    this.config = {
+      sampleRate: 16000,
+      frameSamps: 320,
+      pacing: true,
+      leadFrames: 5,
+      ...config
+    }
+    this.send = send
+    this.signal = options.signal
+    this.frameBytes = this.config.frameSamps * 2
+  }
+
+  /**
+   * Whether the stream was cancelled through its abort signal
+   */
+  isAborted(): boolean {
+    return this.signal?.aborted ?? false
+  }
+
+  /**
+   * Whether the framer stopped because the connection could not accept data
+   */
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  /**
+   * Send the PCM1 header (called automatically by the first write)
+   */
+  start(): boolean {
+    if (this.started) {
+      return !this.closed
+    }
+
+    this.started = true
+    this.startTime = Date.now()
+
+    const header = createPcmHeader(this.config.sampleRate, 1, 16, this.config.frameSamps)
+    return this.transmit(header)
+  }
+
+  /**
+   * Queue 16-bit mono PCM at the output sample rate and send all complete frames
+   */
+  async write(pcm: Buffer): Promise<boolean> {
+    if (!this.start()) {
+      return false
+    }
+
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, pcm]) : pcm
+
+    let offset = 0
+    while (this.pending.length - offset >= this.frameBytes) {
+      if (!(await this.sendFrame(this.pending.subarray(offset, offset + this.frameBytes)))) {
+        return false
+      }
+      offset += this.frameBytes
+    }
+
+    this.pending = this.pending.subarray(offset)
+    return true
+  }
+
+  /**
+   * Flush the final partial frame and send the END marker
+   */
+  async end(): Promise<boolean> {
+    // Nothing was sent yet, so there is no stream to close
+    if (this.isAborted() && !this.started) {
+      return false
+    }
+
+    if (!this.start()) {
+      return false
+    }
+
+    if (this.pending.length > 0 && !this.isAborted()) {
+      // Keep the last frame sample-aligned
+      const tail = this.pending.subarray(0, this.pending.length - (this.pending.length % 2))
+      this.pending = Buffer.alloc(0)
+      if (tail.length > 0 && !(await this.sendFrame(tail))) {
+        return false
+      }
+    }
+
+    this.pending = Buffer.alloc(0)
+    return this.transmit(Buffer.from('END\0', 'binary')) && !this.isAborted()
+  }
+
+  /**
+   * Wait for the pacing deadline and send one frame
+   */
+  private async sendFrame(frame: Buffer): Promise<boolean> {
+    if (this.config.pacing) {
+      const leadSamples = this.config.leadFrames * this.config.frameSamps
+      const dueMs = Math.max(0, this.samplesSent - leadSamples) / this.config.sampleRate * 1000
+      const waitMs = this.startTime + dueMs - Date.now()
+      if (waitMs > 0) {
+        await this.sleep(waitMs)
+      }
+    }
+
+    if (this.isAborted()) {
+      return false
+    }
+
+    // Copy so queued socket writes do not alias the pending buffer
+    if (!this.transmit(Buffer.from(frame))) {
+      return false
+    }
+
+    this.samplesSent += frame.length / 2
+    return true
+  }
+
+  /**
+   * Wait for the given time, returning early if the stream is aborted
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      this.signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private transmit(data: Buffer): boolean {
+    if (this.closed) {
+      return false
+    }
+
+    if (!this.send(data)) {
+      this.closed = true
+      return false
+    }
+    return true
+  }
+}
+
+/**
+ * Convert a complete audio buffer to 16-bit mono PCM at the target rate
+ * @param buffer Audio data in any supported container
+ * @param targetRate Output sample rate
+ * @param source Source description
+ * @param conversion Conversion settings for ffmpeg decoding
+ * @param decoders Decoders to use (default: built-in decoders using `conversion`)
+ * @returns Raw PCM buffer or null on error or unsupported format
+ */
+export async function convertToDownlinkPcm(
+  buffer: Buffer,
+  targetRate: number,
+  source: DownlinkSource = {},
+  conversion: ConversionConfig = {},
+  decoders?: DecoderRegistry
+): Promise<Buffer | null> {
+  return decodeToPcm16(buffer, targetRate, {
+    format: source.format,
+    sampleRate: source.sampleRate,
+    quality: conversion.resampleQuality,
+    decoders: decoders ?? createDefaultDecoders({
+      ffmpegPath: conversion.ffmpegPath,
+      timeoutMs: conversion.timeoutMs,
+      logger: resolveLogger(conversion.logger, conversion.verbose)
+    })
+  })
+}
+
+/**
+ * Stream synthesized audio to a device through a DownlinkFramer
+ * Raw PCM sources are framed as chunks arrive; other containers are collected and converted first
+ * @param chunks Audio chunks (or a single complete buffer)
+ * @param send Function that writes one binary message to the device
+ * @param source Source description
+ * @param config Downlink framing configuration
+ * @param options Stream options (abort signal)
+ * @returns True if the whole stream including END was sent
+ */
+export async function streamDownlinkAudio(
+  chunks: AsyncIterable<Buffer> | Buffer,
+  send: (data: Buffer) => boolean,
+  source: DownlinkSource = {},
+  config: DownlinkConfig = {},
+  options: DownlinkStreamOptions = {}
+): Promise<boolean> {
+  const framer = new DownlinkFramer(send, config, options)
+  const targetRate = config.sampleRate ?? 16000
+
+  if (Buffer.isBuffer(chunks)) {
+    const pcm = await convertToDownlinkPcm(chunks, targetRate, source, config.conversion, config.decoders)
+    if (!pcm) {
+      return false
+    }
+    await framer.write(pcm)
+    return framer.end()
+  }
+
+  let format = source.format
+  let sourceRate = source.sampleRate ?? targetRate
+  let carry: Buffer = Buffer.alloc(0)
+  let resampler: StreamResampler | undefined
+  const collected: Buffer[] = []
+
+  for await (const chunk of chunks) {
+    if (framer.isAborted() || framer.isClosed()) {
+      break
+    }
+
+    if (chunk.length === 0) {
+      continue
+    }
+
+    if (!format) {
+      format = detectAudioFormat(chunk)
+    }
+
+    if (format !== 'pcm' && format !== 'pcm1') {
+      collected.push(chunk)
+      continue
+    }
+
+    let data = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk
+    carry = Buffer.alloc(0)
+
+    if (format === 'pcm1') {
+      // Strip the PCM1 header and switch to raw PCM at its sample rate
+      if (data.length < 16) {
+        carry = data
+        continue
+      }
+      const extracted = extractPcmData(data)
+      if (!extracted || extracted.format.bitsPerSample !== 16 || extracted.format.channels !== 1) {
+        return false
+      }
+      sourceRate = extracted.format.sampleRate
+      data = extracted.data
+      format = 'pcm'
+    }
+
+    // One resampler per stream so chunk boundaries leave no seams
+    resampler ??= new StreamResampler(sourceRate, targetRate, { quality: config.conversion?.resampleQuality })
+    const pcm = resampler.process(data)
+    if (pcm.length > 0 && !(await framer.write(pcm))) {
+      break
+    }
+  }
+
+  if (resampler && !framer.isAborted() && !framer.isClosed()) {
+    const tail = resampler.flush()
+    if (tail.length > 0) {
+      await framer.write(tail)
+    }
+  }
+
+  if (collected.length > 0 && !framer.isAborted()) {
+    const pcm = await convertToDownlinkPcm(
+      Buffer.concat(collected),
+      targetRate,
+      { format },
+      config.conversion,
+      config.decoders
+    )
+    if (!pcm) {
+      return false
+    }
+    await framer.write(pcm)
+  }
+
+  return framer.end()
+}
@@ -0,0 +1,115 @@
+import { spawn } from 'child_process'
+import type { AudioDecoder, DecodeOptions } from './decoder.js'
+import { silentLogger, type Logger } from './logger.js'
+
+/**
+ * FFmpeg decoder configuration
+ */
+export interface FfmpegDecoderConfig {
+  /** Path to ffmpeg binary (default: 'ffmpeg' in PATH) */
+  ffmpegPath?: string
+  /** Kill ffmpeg if decoding takes longer than this (default: 30000) */
+  timeoutMs?: number
+  /** Logger for decoder errors (default: silent) */
+  logger?: Logger
+}
+
+/**
+ * Decoder that pipes audio through an ffmpeg child process
+ * Input is written to stdin and PCM is read from stdout; no temp files or shell are used
+ */
+export class FfmpegDecoder implements AudioDecoder {
+  readonly name = 'ffmpeg'
+  private config: Required<Omit<FfmpegDecoderConfig, 'logger'>>
+  private logger: Logger
+
+  constructor(config: FfmpegDecoderConfig = {}) {
+    this.config = {
+      ffmpegPath: config.ffmpegPath ?? 'ffmpeg',
+      timeoutMs: config.timeoutMs ?? 30_000
+    }
+    this.logger = config.logger ?? silentLogger
+  }
+
+  decode(buffer: Buffer, targetRate: number, options: DecodeOptions = {}): Promise<Buffer | null> {
+    const { signal } = options
+    if (signal?.aborted) {
+      return Promise.resolve(null)
+    }
+
+    const args = [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-vn',
+      '-ac', '1',
+      '-ar', String(targetRate),
+      '-af', 'aresample=resampler=soxr:precision=28:dither_method=triangular',
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      'pipe:1'
+    ]
+
+    return new Promise((resolve) => {
+      const child = spawn(this.config.ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'] })
+      const output: Buffer[] = []
+      let stderr = ''
+      let settled = false
+
+      const finish = (result: Buffer | null) => {
+        if (settled) {
+          return
+        }
+        settled = true
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        resolve(result)
+      }
+
+      const kill = () => {
+        if (child.exitCode === null) {
+          child.kill('SIGKILL')
+        }
+      }
+
+      const onAbort = () => {
+        kill()
+        finish(null)
+      }
+
+      const timer = setTimeout(() => {
+        this.logger.error('ffmpeg decode timed out', { stage: 'decode', timeoutMs: this.config.timeoutMs })
+        kill()
+        finish(null)
+      }, this.config.timeoutMs)
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      child.stdout.on('data', (chunk: Buffer) => output.push(chunk))
+      child.stderr.on('data', (chunk: Buffer) => {
+        // Keep only the tail; ffmpeg errors are at the end
+        stderr = (stderr + chunk.toString()).slice(-4096)
+      })
+
+      child.on('error', (error) => {
+        this.logger.error('Failed to start ffmpeg', { stage: 'decode', error })
+        finish(null)
+      })
+
+      child.on('close', (code) => {
+        if (code !== 0) {
+          if (!settled) {
+            this.logger.error('ffmpeg decode failed', { stage: 'decode', code, stderr: stderr.trim() })
+          }
+          finish(null)
+          return
+        }
+        finish(Buffer.concat(output))
+      })
+
+      // ffmpeg may exit before reading all input (e.g. invalid data)
+      child.stdin.on('error', () => {})
+      child.stdin.end(buffer)
+    })
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Audio format seen by a filter
+ */
+export interface FilterFormat {
+  sampleRate: number
+  channels: number
+}
+
+/**
+ * Audio Filter
+ * Processes interleaved 16-bit samples in place; state carries across calls
+ */
+export interface AudioFilter {
+  /** Filter name for logs */
+  readonly name: string
+  /** Process interleaved samples in place */
+  process(samples: Int16Array): void
+  /** Clear internal state */
+  reset?(): void
+}
+
+/**
+ * Creates a filter instance for one audio stream
+ */
+export type AudioFilterFactory = (format: FilterFormat) => AudioFilter
+
+/**
+ * DC offset removal (one-pole high-pass)
+ */
+export interface DcBlockerOptions {
+  type: 'dc_blocker'
+  /** Pole radius; closer to 1 removes less low end (default: 0.995) */
+  pole?: number
+}
+
+/**
+ * Second-order high-pass (RBJ biquad)
+ */
+export interface HighPassOptions {
+  type: 'highpass'
+  /** Cutoff frequency in Hz (default: 80) */
+  cutoffHz?: number
+  /** Filter Q (default: 0.707) */
+  q?: number
+}
+
+/**
+ * RMS-based automatic gain control
+ */
+export interface AgcOptions {
+  type: 'agc'
+  /** Target RMS level in dBFS (default: -20) */
+  targetDb?: number
+  /** Maximum gain in dB (default: 24) */
+  maxGainDb?: number
+  /** Minimum gain in dB (default: -12) */
+  minGainDb?: number
+  /** RMS averaging window in ms (default: 100) */
+  windowMs?: number
+  /** Time to lower the gain in ms (default: 20) */
+  attackMs?: number
+  /** Time to raise the gain in ms (default: 800) */
+  releaseMs?: number
+  /** Gain is held while the level is below this (dBFS), so silence is not amplified (default: -55) */
+  noiseFloorDb?: number
+}
+
+/**
+ * Noise gate
+ */
+export interface NoiseGateOptions {
+  type: 'noise_gate'
+  /** Level that opens the gate (dBFS, default: -50) */
+  thresholdDb?: number
+  /** Attenuation while closed in dB (default: -40) */
+  reductionDb?: number
+  /** Time the gate stays open after the level drops in ms (default: 150) */
+  holdMs?: number
+  /** Opening time in ms (default: 2) */
+  attackMs?: number
+  /** Closing time in ms (default: 80) */
+  releaseMs?: number
+}
+
+/**
+ * Peak limiter
+ */
+export interface LimiterOptions {
+  type: 'limiter'
+  /** Maximum peak level in dBFS (default: -1) */
+  ceilingDb?: number
+  /** Time to recover gain in ms (default: 50) */
+  releaseMs?: number
+}
+
+/**
+ * Built-in filter stage configuration
+ */
+export type BuiltinFilterStage = DcBlockerOptions | HighPassOptions | AgcOptions | NoiseGateOptions | LimiterOptions
+
+/**
+ * Filter chain stage: a built-in stage or a factory for a custom filter
+ */
+export type FilterStage = BuiltinFilterStage | AudioFilterFactory
+
+const FULL_SCALE = 32768
+
+/**
+ * DC Blocker
+ * y[n] = x[n] - x[n-1] + R * y[n-1]
+ */
+export class DcBlocker implements AudioFilter {
+  readonly name = 'dc_blocker'
+  private pole: number
+  private channels: number
+  private lastInput: Float64Array
+  private lastOutput: Float64Array
+
+  constructor(format: FilterFormat, options: Omit<DcBlockerOptions, 'type'> = {}) {
+    this.pole = options.pole ?? 0.995
+    this.channels = format.channels
+    this.lastInput = new Float64Array(format.channels)
+    this.lastOutput = new Float64Array(format.channels)
+  }
+
+  process(samples: Int16Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      const ch = i % this.channels
+      const x = samples[i]!
+      const y = x - this.lastInput[ch]! + this.pole * this.lastOutput[ch]!
+      this.lastInput[ch] = x
+      this.lastOutput[ch] = y
+      samples[i] = clamp16(y)
+    }
+  }
+
+  reset(): void {
+    this.lastInput.fill(0)
+    this.lastOutput.fill(0)
+  }
+}
+
+/**
+ * Biquad High-Pass Filter
+ * Direct form I with RBJ cookbook coefficients
+ */
+export class HighPassFilter implements AudioFilter {
+  readonly name = 'highpass'
+  private channels: number
+  private b0: number
+  private b1: number
+  private b2: number
+  private a1: number
+  private a2: number
+  // Per channel: x1, x2, y1, y2
+  private state: Float64Array
+
+  constructor(format: FilterFormat, options: Omit<HighPassOptions, 'type'> = {}) {
+    const cutoff = Math.min(options.cutoffHz ?? 80, format.sampleRate * 0.45)
+    const q = options.q ?? 0.707
+    const w0 = 2 * Math.PI * cutoff / format.sampleRate
+    const cos = Math.cos(w0)
+    const alpha = Math.sin(w0) / (2 * q)
+    const a0 = 1 + alpha
+
+    this.b0 = (1 + cos) / 2 / a0
+    this.b1 = -(1 + cos) / a0
+    this.b2 = (1 + cos) / 2 / a0
+    this.a1 = -2 * cos / a0
+    this.a2 = (1 - alpha) / a0
+    this.channels = format.channels
+    this.state = new Float64Array(format.channels * 4)
+  }
+
+  process(samples: Int16Array): void {
+    const s = this.state
+    for (let i = 0; i < samples.length; i++) {
+      const base = (i % this.channels) * 4
+      const x = samples[i]!
+      const y = this.b0 * x + this.b1 * s[base]! + this.b2 * s[base + 1]! - this.a1 * s[base + 2]! - this.a2 * s[base + 3]!
+      s[base + 1] = s[base]!
+      s[base] = x
+      s[base + 3] = s[base + 2]!
+      s[base + 2] = y
+      samples[i] = clamp16(y)
+    }
+  }
+
+  reset(): void {
+    this.state.fill(0)
+  }
+}
+
+/**
+ * Automatic Gain Control
+ * Tracks the RMS level and steers the gain toward the target level
+ */
+export class AutomaticGainControl implements AudioFilter {
+  readonly name = 'agc'
+  private channels: number
+  private target: number
+  private maxGain: number
+  private minGain: number
+  private noiseFloor: number
+  private rmsCoeff: number
+  private attackCoeff: number
+  private releaseCoeff: number
+  private meanSquare = 0
+  private gain = 1
+
+  constructor(format: FilterFormat, options: Omit<AgcOptions, 'type'> = {}) {
+    this.channels = format.channels
+    this.target = dbToLinear(options.targetDb ?? -20)
+    this.maxGain = dbToLinear(options.maxGainDb ?? 24)
+    this.minGain = dbToLinear(options.minGainDb ?? -12)
+    this.noiseFloor = dbToLinear(options.noiseFloorDb ?? -55)
+    this.rmsCoeff = timeCoefficient(options.windowMs ?? 100, format.sampleRate)
+    this.attackCoeff = timeCoefficient(options.attackMs ?? 20, format.sampleRate)
+    this.releaseCoeff = timeCoefficient(options.releaseMs ?? 800, format.sampleRate)
+  }
+
+  process(samples: Int16Array): void {
+    for (let frame = 0; frame < samples.length; frame += this.channels) {
+      let power = 0
+      for (let ch = 0; ch < this.channels; ch++) {
+        const x = (samples[frame + ch] ?? 0) / FULL_SCALE
+        power += x * x
+      }
+      this.meanSquare += this.rmsCoeff * (power / this.channels - this.meanSquare)
+
+      const rms = Math.sqrt(this.meanSquare)
+      if (rms > this.noiseFloor) {
+        const desired = Math.max(this.minGain, Math.min(this.maxGain, this.target / rms))
+        const coeff = desired < this.gain ? this.attackCoeff : this.releaseCoeff
+        this.gain += coeff * (desired - this.gain)
+      }
+
+      for (let ch = 0; ch < this.channels && frame + ch < samples.length; ch++) {
+        samples[frame + ch] = clamp16(samples[frame + ch]! * this.gain)
+      }
+    }
+  }
+
+  reset(): void {
+    this.meanSquare = 0
+    this.gain = 1
+  }
+}
+
+/**
+ * Noise Gate
+ * Attenuates audio while its peak envelope stays below the threshold
+ */
+export class NoiseGate implements AudioFilter {
+  readonly name = 'noise_gate'
+  private channels: number
+  private threshold: number
+  private reduction: number
+  private holdSamples: number
+  private attackCoeff: number
+  private releaseCoeff: number
+  private envelopeCoeff: number
+  private envelope = 0
+  private holdRemaining = 0
+  private gain: number
+
+  constructor(format: FilterFormat, options: Omit<NoiseGateOptions, 'type'> = {}) {
+    this.channels = format.channels
+    this.threshold = dbToLinear(options.thresholdDb ?? -50)
+    this.reduction = dbToLinear(options.reductionDb ?? -40)
+    this.holdSamples = Math.round((options.holdMs ?? 150) * format.sampleRate / 1000)
+    this.attackCoeff = timeCoefficient(options.attackMs ?? 2, format.sampleRate)
+    this.releaseCoeff = timeCoefficient(options.releaseMs ?? 80, format.sampleRate)
+    this.envelopeCoeff = timeCoefficient(10, format.sampleRate)
+    this.gain = this.reduction
+  }
+
+  process(samples: Int16Array): void {
+    for (let frame = 0; frame < samples.length; frame += this.channels) {
+      let peak = 0
+      for (let ch = 0; ch < this.channels; ch++) {
+        peak = Math.max(peak, Math.abs((samples[frame + ch] ?? 0) / FULL_SCALE))
+      }
+      this.envelope = peak > this.envelope ? peak : this.envelope + this.envelopeCoeff * (peak - this.envelope)
+
+      if (this.envelope >= this.threshold) {
+        this.holdRemaining = this.holdSamples
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining--
+      }
+
+      const open = this.holdRemaining > 0
+      const target = open ? 1 : this.reduction
+      this.gain += (open ? this.attackCoeff : this.releaseCoeff) * (target - this.gain)
+
+      for (let ch = 0; ch < this.channels && frame + ch < samples.length; ch++) {
+        samples[frame + ch] = clamp16(samples[frame + ch]! * this.gain)
+      }
+    }
+  }
+
+  reset(): void {
+    this.envelope = 0
+    this.holdRemaining = 0
+    this.gain = this.reduction
+  }
+}
+
+/**
+ * Peak Limiter
+ * Reduces gain instantly on peaks above the ceiling and recovers over the release time
+ */
+export class PeakLimiter implements AudioFilter {
+  readonly name = 'limiter'
+  private channels: number
+  private ceiling: number
+  private releaseCoeff: number
+  private gain = 1
+
+  constructor(format: FilterFormat, options: Omit<LimiterOptions, 'type'> = {}) {
+    this.channels = format.channels
+    this.ceiling = dbToLinear(options.ceilingDb ?? -1) * FULL_SCALE
+    this.releaseCoeff = timeCoefficient(options.releaseMs ?? 50, format.sampleRate)
+  }
+
+  process(samples: Int16Array): void {
+    for (let frame = 0; frame < samples.length; frame += this.channels) {
+      let peak = 0
+      for (let ch = 0; ch < this.channels; ch++) {
+        peak = Math.max(peak, Math.abs(samples[frame + ch] ?? 0))
+      }
+
+      this.gain += this.releaseCoeff * (1 - this.gain)
+      if (peak * this.gain > this.ceiling) {
+        this.gain = this.ceiling / peak
+      }
+
+      for (let ch = 0; ch < this.channels && frame + ch < samples.length; ch++) {
+        samples[frame + ch] = clamp16(samples[frame + ch]! * this.gain)
+      }
+    }
+  }
+
+  reset(): void {
+    this.gain = 1
+  }
+}
+
+/**
+ * Filter Chain
+ * Runs filters in order over 16-bit little-endian PCM chunks
+ */
+export class FilterChain {
+  readonly filters: AudioFilter[]
+  private frameBytes: number
+  private carry: Buffer = Buffer.alloc(0)
+
+  constructor(stages: FilterStage[], format: FilterFormat) {
+    this.filters = stages.map(stage => createFilter(stage, format))
+    this.frameBytes = 2 * format.channels
+  }
+
+  /**
+   * Filter one chunk; partial frames are kept until the next call
+   */
+  process(chunk: Buffer): Buffer {
+    if (this.filters.length === 0) {
+      return chunk
+    }
+
+    const data = this.carry.length > 0 ? Buffer.concat([this.carry, chunk]) : chunk
+    const length = data.length - (data.length % this.frameBytes)
+    this.carry = Buffer.from(data.subarray(length))
+
+    const samples = new Int16Array(length / 2)
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = data.readInt16LE(i * 2)
+    }
+
+    for (const filter of this.filters) {
+      filter.process(samples)
+    }
+
+    return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)
+  }
+
+  /**
+   * Clear the state of all filters
+   */
+  reset(): void {
+    this.carry = Buffer.alloc(0)
+    for (const filter of this.filters) {
+      filter.reset?.()
+    }
+  }
+}
+
+/**
+ * Create a filter from a stage configuration
+ * @param stage Built-in stage options or a custom filter factory
+ * @param format Audio format of the stream
+ * @returns Filter instance
+ */
+export function createFilter(stage: FilterStage, format: FilterFormat): AudioFilter {
+  if (typeof stage === 'function') {
+    return stage(format)
+  }
+
+  switch (stage.type) {
+    case 'dc_blocker':
+      return new DcBlocker(format, stage)
+    case 'highpass':
+      return new HighPassFilter(format, stage)
+    case 'agc':
+      return new AutomaticGainControl(format, stage)
+    case 'noise_gate':
+      return new NoiseGate(format, stage)
+    case 'limiter':
+      return new PeakLimiter(format, stage)
+  }
+}
+
+function clamp16(value: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(value)))
+}
+
+function dbToLinear(db: number): number {
+  return Math.pow(10, db / 20)
+}
+
+/**
+ * One-pole smoothing coefficient for a time constant
+ */
+function timeCoefficient(ms: number, sampleRate: number): number {
+  if (ms <= 0) {
+    return 1
+  }
+  return 1 - Math.exp(-1000 / (ms * sampleRate))
+}
@@ -0,0 +1,141 @@
+import { timingSafeEqual } from 'crypto'
+import type { IncomingMessage, ServerResponse } from 'http'
+
+/**
+ * Admin endpoint configuration
+ */
+export interface AdminConfig {
+  /** Path prefix for admin endpoints (default: '') */
+  basePath?: string
+  /** Bearer token required for non-health endpoints (default: none, loopback clients only) */
+  token?: string
+}
+
+/**
+ * State exposed through the admin endpoints
+ */
+export interface AdminSource {
+  /** Whether the server accepts connections */
+  isReady(): boolean
+  /** JSON-serializable session overview */
+  getSessionsView(): Record<string, unknown>
+  /** Metrics in Prometheus text format */
+  getMetrics?(): string
+}
+
+/**
+ * Admin request handler
+ * Compatible with `http.createServer` and Express-style middleware
+ * @returns True if the request was handled
+ */
+export type AdminHandler = (req: IncomingMessage, res: ServerResponse, next?: () => void) => boolean
+
+/**
+ * Create a request handler for health and admin endpoints
+ * - `GET /healthz`: process is alive
+ * - `GET /readyz`: server accepts connections (503 otherwise)
+ * - `GET /sessions`: active sessions and statistics
+ * - `GET /metrics`: Prometheus metrics (when the source provides them)
+ * Without a token, `/sessions` and `/metrics` are only served to loopback clients.
+ * Unmatched requests are passed to `next` when given
+ * @param source Server state provider
+ * @param config Admin endpoint configuration
+ * @returns Request handler
+ */
+export function createAdminHandler(source: AdminSource, config: AdminConfig = {}): AdminHandler {
+  const basePath = (config.basePath ?? '').replace(/\/+$/, '')
+
+  return (req, res, next) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname
+    const route = pathname.startsWith(basePath) ? pathname.slice(basePath.length) : null
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return passOrNotFound(res, next)
+    }
+
+    if (route === '/healthz') {
+      sendJson(res, 200, { status: 'ok' })
+      return true
+    }
+
+    if (route === '/readyz') {
+      const ready = source.isReady()
+      sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not_ready' })
+      return true
+    }
+
+    if (route === '/sessions') {
+      if (!authorize(req, res, config.token)) {
+        return true
+      }
+      sendJson(res, 200, source.getSessionsView())
+      return true
+    }
+
+    if (route === '/metrics' && source.getMetrics) {
+      if (!authorize(req, res, config.token)) {
+        return true
+      }
+      const payload = source.getMetrics()
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload),
+        'Cache-Control': 'no-store'
+      })
+      res.end(payload)
+      return true
+    }
+
+    return passOrNotFound(res, next)
+  }
+}
+
+function passOrNotFound(res: ServerResponse, next?: () => void): boolean {
+  if (next) {
+    next()
+    return false
+  }
+
+  sendJson(res, 404, { error: 'not_found' })
+  return true
+}
+
+/**
+ * Check access to a protected endpoint, answering the request when it is refused
+ */
+function authorize(req: IncomingMessage, res: ServerResponse, token?: string): boolean {
+  // Session and device details must not leak on the device-facing port
+  if (!token) {
+    if (isLoopback(req.socket.remoteAddress)) {
+      return true
+    }
+    sendJson(res, 403, { error: 'forbidden' })
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(req.headers.authorization ?? '')
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    sendJson(res, 401, { error: 'unauthorized' })
+    return false
+  }
+  return true
+}
+
+function isLoopback(address?: string): boolean {
+  if (!address) {
+    return false
+  }
+  const ip = address.startsWith('::ffff:') ? address.slice(7) : address
+  return ip === '::1' || ip.startsWith('127.')
+}
+
+function sendJson(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  const payload = JSON.stringify(body)
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+    'Cache-Control': 'no-store'
+  })
+  res.end(payload)
+}
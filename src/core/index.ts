@@ -4,5 +4,26 @@
 
 export * from './pcm.js'
 export * from './audio-conversion.js'
+export * from './audio-buffer.js'
 export * from './websocket.js'
 export * from './session.js'
+export * from './vad.js'
+export * from './downlink.js'
+export * from './auth.js'
+export * from './conversation-store.js'
+export * from './protocol.js'
+export * from './device-registry.js'
+export * from './playback-queue.js'
+export * from './http.js'
+export * from './metrics.js'
+export * from './logger.js'
+export * from './decoder.js'
+export * from './ffmpeg-decoder.js'
+export * from './resampler.js'
+export * from './uplink.js'
+export * from './filters.js'
+export * from './codecs.js'
+export * from './channels.js'
+export * from './recorder.js'
+export * from './canned-responses.js'
+export * from './scheduler.js'
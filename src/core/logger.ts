@@ -0,0 +1,199 @@
+/**
+ * Log severity, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured log fields (e.g. sessionId, deviceId, stage, error)
+ */
+export type LogFields = Record<string, unknown>
+
+/**
+ * Logger
+ * Implement this to route server logs into your logging stack
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+}
+
+/**
+ * Logger that discards everything (default for library use)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+}
+
+/**
+ * Base class for loggers that filter by level and carry bound fields
+ */
+abstract class LevelLogger implements Logger {
+  protected readonly level: LogLevel
+  protected readonly fields: LogFields
+
+  constructor(level: LogLevel, fields: LogFields) {
+    this.level = level
+    this.fields = fields
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return
+    }
+    this.write(level, message, { ...this.fields, ...fields })
+  }
+
+  protected abstract write(level: LogLevel, message: string, fields: LogFields): void
+}
+
+/**
+ * Console logger configuration
+ */
+export interface ConsoleLoggerConfig {
+  /** Minimum level to print (default: 'info') */
+  level?: LogLevel
+  /** Fields added to every entry */
+  fields?: LogFields
+}
+
+/**
+ * Logger that prints human-readable lines to the console
+ */
+export class ConsoleLogger extends LevelLogger {
+  constructor(config: ConsoleLoggerConfig = {}) {
+    super(config.level ?? 'info', config.fields ?? {})
+  }
+
+  protected write(level: LogLevel, message: string, fields: LogFields): void {
+    const { error, ...rest } = fields
+    const details = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''
+    const args: unknown[] = [`[${level}] ${message}${details}`]
+    if (error !== undefined) {
+      args.push(error)
+    }
+
+    if (level === 'error') {
+      console.error(...args)
+    } else if (level === 'warn') {
+      console.warn(...args)
+    } else {
+      console.log(...args)
+    }
+  }
+}
+
+/**
+ * JSON-lines logger configuration
+ */
+export interface JsonLinesLoggerConfig {
+  /** Minimum level to write (default: 'info') */
+  level?: LogLevel
+  /** Output stream (default: process.stdout) */
+  stream?: { write(chunk: string): unknown }
+  /** Fields added to every entry */
+  fields?: LogFields
+}
+
+/**
+ * Logger that writes one JSON object per line
+ * Entries have `time` (ISO 8601), `level`, `msg` and the structured fields
+ */
+export class JsonLinesLogger extends LevelLogger {
+  private stream: { write(chunk: string): unknown }
+
+  constructor(config: JsonLinesLoggerConfig = {}) {
+    super(config.level ?? 'info', config.fields ?? {})
+    this.stream = config.stream ?? process.stdout
+  }
+
+  /**
+   * Create a logger that adds fields to every entry
+   */
+  child(fields: LogFields): JsonLinesLogger {
+    return new JsonLinesLogger({
+      level: this.level,
+      stream: this.stream,
+      fields: { ...this.fields, ...fields }
+    })
+  }
+
+  protected write(level: LogLevel, message: string, fields: LogFields): void {
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message }
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = value instanceof Error ? serializeError(value) : value
+    }
+
+    let line: string
+    try {
+      line = JSON.stringify(entry)
+    } catch {
+      line = JSON.stringify({ time: entry.time, level, msg: message, logError: 'unserializable fields' })
+    }
+    this.stream.write(line + '\n')
+  }
+}
+
+/**
+ * Create a logger that adds fields to every entry of another logger
+ */
+export function withFields(logger: Logger, fields: LogFields): Logger {
+  if (logger === silentLogger) {
+    return logger
+  }
+
+  return {
+    debug: (message, extra) => logger.debug(message, { ...fields, ...extra }),
+    info: (message, extra) => logger.info(message, { ...fields, ...extra }),
+    warn: (message, extra) => logger.warn(message, { ...fields, ...extra }),
+    error: (message, extra) => logger.error(message, { ...fields, ...extra })
+  }
+}
+
+/**
+ * Resolve the logger for a component
+ * An explicit logger wins; a legacy `verbose` flag maps to a console logger at debug level
+ * @param logger Configured logger
+ * @param verbose Legacy verbose flag
+ */
+export function resolveLogger(logger?: Logger, verbose?: boolean): Logger {
+  if (logger) {
+    return logger
+  }
+  return verbose ? new ConsoleLogger({ level: 'debug' }) : silentLogger
+}
+
+function serializeError(error: Error): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack
+  }
+}
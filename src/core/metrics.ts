@@ -0,0 +1,399 @@
+/**
+ * Metric label values
+ */
+export type Labels = Record<string, string>
+
+/**
+ * Metric type
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+/**
+ * Point-in-time value of one labeled series
+ */
+export interface SampleSnapshot {
+  labels: Labels
+  /** Counter/gauge value */
+  value?: number
+  /** Histogram observation count */
+  count?: number
+  /** Histogram observation sum */
+  sum?: number
+  /** Histogram cumulative bucket counts keyed by upper bound */
+  buckets?: Record<string, number>
+}
+
+/**
+ * Point-in-time value of a metric
+ */
+export interface MetricSnapshot {
+  type: MetricType
+  help: string
+  samples: SampleSnapshot[]
+}
+
+/**
+ * Default histogram buckets in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+/**
+ * Common metric behaviour: labeled series storage and text rendering
+ */
+abstract class Metric<T> {
+  readonly name: string
+  readonly help: string
+  abstract readonly type: MetricType
+  protected series: Map<string, { labels: Labels; value: T }> = new Map()
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  /**
+   * Remove all series
+   */
+  reset(): void {
+    this.series.clear()
+  }
+
+  abstract snapshot(): MetricSnapshot
+
+  abstract render(): string
+
+  protected getSeries(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: { ...labels }, value: create() }
+      this.series.set(key, entry)
+    }
+    return entry
+  }
+
+  protected renderHeader(): string {
+    return `# HELP ${this.name} ${escapeHelp(this.help)}\n# TYPE ${this.name} ${this.type}\n`
+  }
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter'
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`)
+    }
+    this.getSeries(labels, () => 0).value += amount
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      type: this.type,
+      help: this.help,
+      samples: Array.from(this.series.values(), ({ labels, value }) => ({ labels, value }))
+    }
+  }
+
+  render(): string {
+    let out = this.renderHeader()
+    for (const { labels, value } of this.series.values()) {
+      out += `${this.name}${formatLabels(labels)} ${formatValue(value)}\n`
+    }
+    return out
+  }
+}
+
+/**
+ * Gauge that can go up and down, or be read from a collector at scrape time
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge'
+  private collector?: () => number | Array<{ labels: Labels; value: number }>
+
+  /**
+   * Compute the gauge value when it is read instead of tracking it manually
+   */
+  setCollector(collector: () => number | Array<{ labels: Labels; value: number }>): void {
+    this.collector = collector
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.getSeries(labels, () => 0).value = value
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.getSeries(labels, () => 0).value += amount
+  }
+
+  dec(labels: Labels = {}, amount: number = 1): void {
+    this.getSeries(labels, () => 0).value -= amount
+  }
+
+  get(labels: Labels = {}): number {
+    this.collect()
+    return this.series.get(labelKey(labels))?.value ?? 0
+  }
+
+  snapshot(): MetricSnapshot {
+    this.collect()
+    return {
+      type: this.type,
+      help: this.help,
+      samples: Array.from(this.series.values(), ({ labels, value }) => ({ labels, value }))
+    }
+  }
+
+  render(): string {
+    this.collect()
+    let out = this.renderHeader()
+    for (const { labels, value } of this.series.values()) {
+      out += `${this.name}${formatLabels(labels)} ${formatValue(value)}\n`
+    }
+    return out
+  }
+
+  private collect(): void {
+    if (!this.collector) {
+      return
+    }
+
+    const result = this.collector()
+    if (typeof result === 'number') {
+      this.set(result)
+      return
+    }
+
+    this.series.clear()
+    for (const { labels, value } of result) {
+      this.set(value, labels)
+    }
+  }
+}
+
+interface HistogramData {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Histogram with cumulative buckets
+ */
+export class Histogram extends Metric<HistogramData> {
+  readonly type = 'histogram'
+  readonly buckets: number[]
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const data = this.getSeries(labels, () => ({
+      counts: new Array(this.buckets.length).fill(0),
+      sum: 0,
+      count: 0
+    })).value
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]!) {
+        data.counts[i]!++
+      }
+    }
+    data.sum += value
+    data.count++
+  }
+
+  /**
+   * Start a timer that observes the elapsed seconds when called
+   */
+  startTimer(labels: Labels = {}): () => number {
+    const start = process.hrtime.bigint()
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe(seconds, labels)
+      return seconds
+    }
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      type: this.type,
+      help: this.help,
+      samples: Array.from(this.series.values(), ({ labels, value }) => ({
+        labels,
+        count: value.count,
+        sum: value.sum,
+        buckets: Object.fromEntries([
+          ...this.buckets.map((bound, i) => [String(bound), value.counts[i]!] as const),
+          ['+Inf', value.count] as const
+        ])
+      }))
+    }
+  }
+
+  render(): string {
+    let out = this.renderHeader()
+    for (const { labels, value } of this.series.values()) {
+      for (let i = 0; i < this.buckets.length; i++) {
+        out += `${this.name}_bucket${formatLabels({ ...labels, le: String(this.buckets[i]) })} ${value.counts[i]}\n`
+      }
+      out += `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}\n`
+      out += `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}\n`
+      out += `${this.name}_count${formatLabels(labels)} ${value.count}\n`
+    }
+    return out
+  }
+}
+
+/**
+ * Metrics Registry
+ * Holds metrics and renders them in Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Counter | Gauge | Histogram> = new Map()
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help), Counter)
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help), Gauge)
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets), Histogram)
+  }
+
+  /**
+   * Render all metrics in Prometheus text format (version 0.0.4)
+   */
+  render(): string {
+    return Array.from(this.metrics.values(), metric => metric.render()).join('')
+  }
+
+  /**
+   * Get current values of all metrics
+   */
+  snapshot(): Record<string, MetricSnapshot> {
+    const result: Record<string, MetricSnapshot> = {}
+    for (const [name, metric] of this.metrics) {
+      result[name] = metric.snapshot()
+    }
+    return result
+  }
+
+  /**
+   * Reset all metric values
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset()
+    }
+  }
+
+  private register<T extends Counter | Gauge | Histogram>(
+    name: string,
+    create: () => T,
+    type: abstract new (...args: never[]) => T
+  ): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as ${existing.type}`)
+      }
+      return existing
+    }
+
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+/**
+ * Voice pipeline metrics
+ */
+export class VoiceMetrics {
+  readonly registry: MetricsRegistry
+  readonly connections: Gauge
+  readonly sessions: Gauge
+  readonly bytesReceived: Counter
+  readonly chunksReceived: Counter
+  readonly limitExceeded: Counter
+  readonly sessionTimeouts: Counter
+  readonly stageDuration: Histogram
+  readonly heartbeatTerminations: Counter
+  readonly queueDepth: Gauge
+  readonly turnsActive: Gauge
+  readonly turnsRejected: Counter
+
+  /**
+   * @param registry Registry to add metrics to (default: a new registry)
+   * @param prefix Metric name prefix (default: 'esp_voice_')
+   */
+  constructor(registry: MetricsRegistry = new MetricsRegistry(), prefix: string = 'esp_voice_') {
+    this.registry = registry
+    this.connections = registry.gauge(`${prefix}connections_active`, 'Open WebSocket connections')
+    this.sessions = registry.gauge(`${prefix}sessions_active`, 'Active streaming sessions')
+    this.bytesReceived = registry.counter(`${prefix}audio_bytes_received_total`, 'Audio bytes received from devices')
+    this.chunksReceived = registry.counter(`${prefix}audio_chunks_received_total`, 'Audio chunks received from devices')
+    this.limitExceeded = registry.counter(`${prefix}session_limit_exceeded_total`, 'Session limit violations by reason')
+    this.sessionTimeouts = registry.counter(`${prefix}session_timeouts_total`, 'Sessions ended by the reaper by reason')
+    this.stageDuration = registry.histogram(
+      `${prefix}pipeline_stage_duration_seconds`,
+      'Pipeline stage latency in seconds by stage'
+    )
+    this.heartbeatTerminations = registry.counter(
+      `${prefix}heartbeat_terminations_total`,
+      'Connections terminated for missing heartbeat pongs'
+    )
+    this.queueDepth = registry.gauge(`${prefix}pipeline_queue_depth`, 'Turns waiting for pipeline capacity')
+    this.turnsActive = registry.gauge(`${prefix}pipeline_turns_active`, 'Turns holding a pipeline slot')
+    this.turnsRejected = registry.counter(
+      `${prefix}pipeline_turns_rejected_total`,
+      'Turns rejected by the scheduler by reason'
+    )
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN'
+  }
+  if (value === Infinity) {
+    return '+Inf'
+  }
+  if (value === -Infinity) {
+    return '-Inf'
+  }
+  return String(value)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
@@ -1,4 +1,27 @@
-import type { PcmHeader, AudioFormat } from '../types/index.js'
+import type { PcmHeader, AudioFormat, AudioCodec } from '../types/index.js'
+
+/**
+ * Codec ids stored in the PCM1 header `reserved` field
+ */
+export const PCM_CODEC_IDS: Record<AudioCodec, number> = {
+  pcm: 0,
+  ima_adpcm: 1,
+  opus: 2
+}
+
+/**
+ * Look up the codec for a header `reserved` value
+ * @param id Codec id
+ * @returns Codec name or null if unknown
+ */
+export function codecFromId(id: number): AudioCodec | null {
+  for (const [codec, codecId] of Object.entries(PCM_CODEC_IDS)) {
+    if (codecId === id) {
+      return codec as AudioCodec
+    }
+  }
+  return null
+}
 
 /**
  * Parse PCM1 custom header from buffer
@@ -23,14 +46,21 @@ export function parsePcmHeader(buffer: ArrayBufferLike): PcmHeader | null {
     return null
   }
 
-  return {
+  const reserved = view.getUint16(12, true)
+  const header: PcmHeader = {
     magic,
     sample_rate: view.getUint32(4, true),  // little endian
     channels: view.getUint8(8),
     bits: view.getUint8(9),
     frame_samps: view.getUint16(10, true),
-    reserved: view.getUint16(12, true)
+    reserved
   }
+
+  const codec = codecFromId(reserved)
+  if (codec) {
+    header.codec = codec
+  }
+  return header
 }
 
 /**
@@ -39,13 +69,15 @@ export function parsePcmHeader(buffer: ArrayBufferLike): PcmHeader | null {
  * @param channels Number of channels (1 for mono, 2 for stereo)
  * @param bits Bits per sample (typically 16)
  * @param frameSamps Samples per frame (typically 320 for 20ms@16kHz)
+ * @param codec Codec of the audio that follows (default: 'pcm')
  * @returns 16-byte header buffer
  */
 export function createPcmHeader(
   sampleRate: number = 16000,
   channels: number = 1,
   bits: number = 16,
-  frameSamps: number = 320
+  frameSamps: number = 320,
+  codec: AudioCodec = 'pcm'
 ): Buffer {
   const headerBuffer = Buffer.alloc(16)
 
@@ -64,8 +96,8 @@ export function createPcmHeader(
   // Frame samples (2 bytes, little endian)
   headerBuffer.writeUInt16LE(frameSamps, 10)
 
-  // Reserved (2 bytes)
-  headerBuffer.writeUInt16LE(0, 12)
+  // Reserved (2 bytes): codec id
+  headerBuffer.writeUInt16LE(PCM_CODEC_IDS[codec], 12)
 
   // Padding (2 bytes)
   headerBuffer.writeUInt16LE(0, 14)
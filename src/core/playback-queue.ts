@@ -0,0 +1,139 @@
+import { silentLogger, type Logger } from './logger.js'
+
+/**
+ * Downlink playback task
+ * Receives a signal that is aborted when the item is cancelled or interrupted
+ * and resolves true if the audio was delivered completely
+ */
+export type PlaybackTask = (signal: AbortSignal) => Promise<boolean>
+
+/**
+ * Options for a queued playback item
+ */
+export interface PlaybackOptions {
+  /** Higher priorities play first (default: 0) */
+  priority?: number
+  /** Abort the current item if it has a lower priority (default: false) */
+  interrupt?: boolean
+  /** External cancellation; the item is skipped or stopped when aborted */
+  signal?: AbortSignal
+}
+
+interface QueuedItem {
+  task: PlaybackTask
+  priority: number
+  controller: AbortController
+  resolve: (delivered: boolean) => void
+}
+
+/**
+ * Playback Queue
+ * Serializes downlink audio on one connection so responses and announcements never overlap
+ */
+export class PlaybackQueue {
+  private pending: QueuedItem[] = []
+  private current: QueuedItem | null = null
+  private logger: Logger
+
+  constructor(logger: Logger = silentLogger) {
+    this.logger = logger
+  }
+
+  /**
+   * Queue a playback task
+   * @returns Resolves when the task finished, was skipped or was cancelled
+   */
+  enqueue(task: PlaybackTask, options: PlaybackOptions = {}): Promise<boolean> {
+    const priority = options.priority ?? 0
+    const controller = new AbortController()
+
+    if (options.signal?.aborted) {
+      return Promise.resolve(false)
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const item: QueuedItem = { task, priority, controller, resolve }
+
+      // A cancelled item leaves the queue right away instead of when its turn comes
+      options.signal?.addEventListener('abort', () => {
+        controller.abort()
+        const index = this.pending.indexOf(item)
+        if (index !== -1) {
+          this.pending.splice(index, 1)
+          resolve(false)
+        }
+      }, { once: true })
+
+      // Insert after all items with the same or higher priority
+      const index = this.pending.findIndex(queued => queued.priority < priority)
+      if (index === -1) {
+        this.pending.push(item)
+      } else {
+        this.pending.splice(index, 0, item)
+      }
+
+      if (options.interrupt && this.current && this.current.priority < priority) {
+        this.current.controller.abort()
+      }
+
+      if (!this.current) {
+        void this.drain()
+      }
+    })
+  }
+
+  /**
+   * Whether an item is currently playing
+   */
+  isPlaying(): boolean {
+    return this.current !== null
+  }
+
+  /**
+   * Number of items waiting to play
+   */
+  size(): number {
+    return this.pending.length
+  }
+
+  /**
+   * Stop the current item and drop all pending items
+   */
+  clear(): void {
+    const pending = this.pending
+    this.pending = []
+
+    for (const item of pending) {
+      item.controller.abort()
+      item.resolve(false)
+    }
+
+    this.current?.controller.abort()
+  }
+
+  /**
+   * Play queued items one at a time
+   */
+  private async drain(): Promise<void> {
+    while (!this.current && this.pending.length > 0) {
+      const item = this.pending.shift()!
+
+      if (item.controller.signal.aborted) {
+        item.resolve(false)
+        continue
+      }
+
+      this.current = item
+      let delivered = false
+      try {
+        delivered = await item.task(item.controller.signal)
+      } catch (error) {
+        this.logger.error('Error in playback task', { stage: 'playback', error })
+      } finally {
+        this.current = null
+      }
+
+      item.resolve(delivered && !item.controller.signal.aborted)
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import type { WebSocket } from 'ws'
+
+/**
+ * Current JSON control protocol version
+ */
+export const PROTOCOL_VERSION = 1
+
+/**
+ * Machine-readable error codes sent in `error` messages
+ * - Control commands: 'invalid_json' through 'command_failed'
+ * - 'processing_failed': a pipeline stage failed (the `stage` field names it)
+ * - 'no_speech': transcription returned no text
+ * - 'limit_exceeded': the utterance hit a session limit
+ * - 'unsupported_codec': the PCM1 header declares a codec without a decoder
+ * - 'resume_failed': the resume token was invalid or expired
+ * - 'message_failed': the server failed to handle a message
+ */
+export type ProtocolErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unsupported_version'
+  | 'unknown_command'
+  | 'auth_required'
+  | 'command_failed'
+  | 'processing_failed'
+  | 'no_speech'
+  | 'limit_exceeded'
+  | 'unsupported_codec'
+  | 'resume_failed'
+  | 'message_failed'
+
+/**
+ * Field types supported by command schemas
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'string[]'
+
+/**
+ * Schema for a command's fields (besides `type`, `v` and `id`)
+ */
+export type CommandSchema = Record<string, { type: FieldType; required?: boolean }>
+
+/**
+ * Control message envelope
+ * Every command is a JSON text frame with a `type`, an optional protocol version `v`
+ * and an optional `id` echoed in the reply
+ */
+export interface ControlMessage {
+  /** Command type */
+  type: string
+  /** Protocol version (default: current) */
+  v?: number
+  /** Request ID echoed in replies */
+  id?: string | number
+  /** Command-specific fields */
+  [field: string]: unknown
+}
+
+/**
+ * Device greeting with capabilities and firmware version
+ */
+export interface HelloMessage extends ControlMessage {
+  type: 'hello'
+  deviceId?: string
+  firmwareVersion?: string
+  capabilities?: string[]
+}
+
+/**
+ * Switch the conversation the device is talking in
+ */
+export interface SetConversationMessage extends ControlMessage {
+  type: 'set_conversation'
+  conversationId: string
+}
+
+/**
+ * Cancel the in-flight response
+ */
+export interface CancelMessage extends ControlMessage {
+  type: 'cancel'
+}
+
+/**
+ * Per-connection settings
+ */
+export interface ConfigMessage extends ControlMessage {
+  type: 'config'
+  settings: Record<string, unknown>
+}
+
+/**
+ * Liveness check
+ */
+export interface PingMessage extends ControlMessage {
+  type: 'ping'
+  timestamp?: number
+}
+
+/**
+ * Schemas for built-in commands
+ */
+export const BUILTIN_COMMAND_SCHEMAS: Record<string, CommandSchema> = {
+  hello: {
+    deviceId: { type: 'string' },
+    firmwareVersion: { type: 'string' },
+    capabilities: { type: 'string[]' }
+  },
+  set_conversation: {
+    conversationId: { type: 'string', required: true }
+  },
+  cancel: {},
+  config: {
+    settings: { type: 'object', required: true }
+  },
+  ping: {
+    timestamp: { type: 'number' }
+  }
+}
+
+/**
+ * Context passed to command handlers
+ */
+export interface CommandContext {
+  /** Connection the command arrived on */
+  ws: WebSocket
+  /** Current session ID of the connection */
+  sessionId: string
+  /** Send a JSON reply (the request `id` is added automatically) */
+  reply: (message: Record<string, unknown>) => void
+  /** Send an `error` reply */
+  replyError: (code: ProtocolErrorCode | string, message: string) => void
+}
+
+/**
+ * Handler for a control command
+ */
+export type CommandHandler<T extends ControlMessage = ControlMessage> = (
+  message: T,
+  context: CommandContext
+) => void | Promise<void>
+
+/**
+ * Command registration options
+ */
+export interface CommandOptions {
+  /** Field schema validated before the handler runs */
+  schema?: CommandSchema
+  /** Allow the command before authentication when `requireAuth` is set (default: false) */
+  allowUnauthenticated?: boolean
+}
+
+/**
+ * Result of parsing a control message
+ */
+export type ParseResult =
+  | { ok: true; message: ControlMessage }
+  | { ok: false; code: ProtocolErrorCode; error: string; id?: string | number }
+
+/**
+ * Parse and validate the envelope of a JSON control message
+ * @param text Text frame content
+ * @returns Parsed message or error details
+ */
+export function parseControlMessage(text: string): ParseResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, code: 'invalid_json', error: 'Message is not valid JSON' }
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, code: 'invalid_message', error: 'Message must be a JSON object' }
+  }
+
+  const message = parsed as Record<string, unknown>
+  const id = typeof message.id === 'string' || typeof message.id === 'number' ? message.id : undefined
+
+  if (typeof message.type !== 'string' || message.type.length === 0) {
+    return { ok: false, code: 'invalid_message', error: 'Field "type" must be a non-empty string', id }
+  }
+
+  if (message.v !== undefined) {
+    if (typeof message.v !== 'number' || !Number.isInteger(message.v)) {
+      return { ok: false, code: 'invalid_message', error: 'Field "v" must be an integer', id }
+    }
+    if (message.v > PROTOCOL_VERSION) {
+      return {
+        ok: false,
+        code: 'unsupported_version',
+        error: `Protocol version ${message.v} is not supported (server: ${PROTOCOL_VERSION})`,
+        id
+      }
+    }
+  }
+
+  if (message.id !== undefined && id === undefined) {
+    return { ok: false, code: 'invalid_message', error: 'Field "id" must be a string or number' }
+  }
+
+  return { ok: true, message: message as ControlMessage }
+}
+
+/**
+ * Validate command fields against a schema
+ * @param message Parsed control message
+ * @param schema Field schema
+ * @returns Error description, or null if the message is valid
+ */
+export function validateCommand(message: ControlMessage, schema: CommandSchema): string | null {
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = message[field]
+
+    if (value === undefined) {
+      if (spec.required) {
+        return `Missing required field "${field}"`
+      }
+      continue
+    }
+
+    if (!matchesType(value, spec.type)) {
+      return `Field "${field}" must be of type ${spec.type}`
+    }
+  }
+
+  return null
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+  }
+}
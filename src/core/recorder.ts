@@ -0,0 +1,403 @@
+import { promises as fsPromises } from 'fs'
+import { join } from 'path'
+import type { PcmHeader, PipelineStage, PluginAttempt } from '../types/index.js'
+import type { ConversationContext, PipelineConfig } from '../plugins/index.js'
+import { wrapPcmToWav, calculateDuration } from './pcm.js'
+import { detectAudioFormat, type AudioContainerFormat } from './decoder.js'
+import { silentLogger, type Logger } from './logger.js'
+
+/**
+ * Stage durations of a recorded turn, in milliseconds
+ */
+export interface RecordingTimings {
+  transcriptionMs?: number
+  generationMs?: number
+  /** Time to the first audio chunk when synthesis streams */
+  synthesisMs?: number
+}
+
+/**
+ * How a recorded turn ended
+ * - 'completed': the response was sent
+ * - 'cancelled': barge-in, cancel command or disconnect
+ * - 'failed': a stage returned null or threw
+ */
+export type RecordingOutcome = 'completed' | 'cancelled' | 'failed'
+
+/**
+ * Recorded turn details passed to SessionRecorder.save()
+ */
+export interface RecordingInput {
+  sessionId: string
+  deviceId?: string
+  userId?: string
+  conversationId?: string
+  /** Format of the recorded audio (after uplink processing) */
+  header: PcmHeader
+  /** Session start (Unix ms) */
+  startedAt: number
+  /** Session end (Unix ms) */
+  endedAt: number
+  timings: RecordingTimings
+  transcription?: string | null
+  response?: string | null
+  outcome: RecordingOutcome
+  /** Failure reason */
+  error?: string
+  /** Stage that failed */
+  failedStage?: PipelineStage
+  /** Plugin calls made by composite plugins */
+  attempts?: PluginAttempt[]
+}
+
+/**
+ * JSON sidecar stored next to each recording's WAV file
+ */
+export interface SessionRecording extends RecordingInput {
+  /** Sidecar format version */
+  version: 1
+  /** Recording ID (file name stem) */
+  id: string
+  /** Duration of the recorded audio in seconds */
+  audioDuration: number
+  /** Recording files, relative to the recorder directory */
+  files: {
+    /** Device audio as WAV */
+    audio: string
+    /** Synthesized response audio as produced by the synthesis plugin */
+    response?: string
+  }
+  /** Format of the synthesized response audio */
+  responseFormat?: AudioContainerFormat
+}
+
+/**
+ * Recording loaded from disk
+ */
+export interface LoadedRecording {
+  recording: SessionRecording
+  /** Device audio as raw PCM in `recording.header` format */
+  audio: Buffer
+  /** Synthesized response audio */
+  responseAudio?: Buffer
+}
+
+/**
+ * Session recorder configuration
+ */
+export interface SessionRecorderConfig {
+  /** Directory for recordings (created on first write) */
+  directory: string
+  /** Delete recordings older than this (default: 7 days) */
+  maxAgeMs?: number
+  /** Delete the oldest recordings while the directory is larger than this (default: 1 GiB) */
+  maxTotalBytes?: number
+  /** Store synthesized response audio (default: true) */
+  recordResponseAudio?: boolean
+  /** Choose which sessions to record (default: all) */
+  filter?: (session: { sessionId: string; deviceId?: string; userId?: string }) => boolean
+  /** Logger (default: silent) */
+  logger?: Logger
+}
+
+const RESPONSE_EXTENSIONS: Record<AudioContainerFormat, string> = {
+  pcm1: 'pcm1',
+  pcm: 'pcm',
+  wav: 'wav',
+  mp3: 'mp3',
+  ogg: 'ogg'
+}
+
+/**
+ * Session Recorder
+ * Stores each finished turn's device audio as WAV with a JSON sidecar (header, timings,
+ * transcription, response) and optionally the synthesized audio. Retention limits are
+ * applied after every save.
+ */
+export class SessionRecorder {
+  private config: Required<Omit<SessionRecorderConfig, 'filter' | 'logger'>> & Pick<SessionRecorderConfig, 'filter'>
+  private logger: Logger
+  private pruning: Promise<number> | null = null
+
+  constructor(config: SessionRecorderConfig) {
+    this.config = {
+      maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+      maxTotalBytes: 1024 * 1024 * 1024,
+      recordResponseAudio: true,
+      ...config
+    }
+    this.logger = config.logger ?? silentLogger
+  }
+
+  /**
+   * Whether a session should be recorded
+   */
+  shouldRecord(session: { sessionId: string; deviceId?: string; userId?: string }): boolean {
+    return this.config.filter ? this.config.filter(session) : true
+  }
+
+  /**
+   * Whether synthesized audio should be passed to save()
+   */
+  recordsResponseAudio(): boolean {
+    return this.config.recordResponseAudio
+  }
+
+  /**
+   * Store a recording
+   * @param input Turn details
+   * @param audio Device audio (raw PCM in `input.header` format)
+   * @param responseAudio Synthesized audio
+   * @param responseFormat Format of responseAudio (detected when omitted)
+   * @returns Recording ID or null on error
+   */
+  async save(
+    input: RecordingInput,
+    audio: Buffer,
+    responseAudio?: Buffer,
+    responseFormat?: AudioContainerFormat
+  ): Promise<string | null> {
+    const id = `${input.startedAt}_${input.sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}`
+    const { header } = input
+
+    const recording: SessionRecording = {
+      version: 1,
+      id,
+      ...input,
+      audioDuration: calculateDuration(audio.length, header.sample_rate, header.channels, header.bits),
+      files: { audio: `${id}.wav` }
+    }
+
+    try {
+      await fsPromises.mkdir(this.config.directory, { recursive: true })
+      await fsPromises.writeFile(
+        join(this.config.directory, recording.files.audio),
+        wrapPcmToWav(audio, header.sample_rate, header.channels, header.bits)
+      )
+
+      if (responseAudio && responseAudio.length > 0 && this.config.recordResponseAudio) {
+        const format = responseFormat ?? detectAudioFormat(responseAudio)
+        recording.files.response = `${id}.response.${RESPONSE_EXTENSIONS[format]}`
+        recording.responseFormat = format
+        await fsPromises.writeFile(join(this.config.directory, recording.files.response), responseAudio)
+      }
+
+      // The sidecar is written last so list() only sees complete recordings
+      const path = join(this.config.directory, `${id}.json`)
+      const tempPath = `${path}.${process.pid}.tmp`
+      await fsPromises.writeFile(tempPath, JSON.stringify(recording, null, 2))
+      await fsPromises.rename(tempPath, path)
+    } catch (error) {
+      this.logger.error('Failed to save session recording', { sessionId: input.sessionId, error })
+      return null
+    }
+
+    this.logger.debug('Session recorded', { sessionId: input.sessionId, recordingId: id })
+    void this.prune().catch((error) => {
+      this.logger.warn('Failed to prune session recordings', { error })
+    })
+    return id
+  }
+
+  /**
+   * List recordings, newest first
+   */
+  async list(): Promise<SessionRecording[]> {
+    const recordings: SessionRecording[] = []
+    for (const name of await this.readDirectory()) {
+      if (!name.endsWith('.json')) {
+        continue
+      }
+      const recording = await this.readSidecar(name.slice(0, -'.json'.length))
+      if (recording) {
+        recordings.push(recording)
+      }
+    }
+    return recordings.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  /**
+   * Load a recording with its audio
+   * @param id Recording ID
+   * @returns Recording or null if missing or unreadable
+   */
+  async load(id: string): Promise<LoadedRecording | null> {
+    const recording = await this.readSidecar(id)
+    if (!recording) {
+      return null
+    }
+
+    try {
+      const wav = await fsPromises.readFile(join(this.config.directory, recording.files.audio))
+      // WAV files are written by this recorder, so the header is always 44 bytes
+      const loaded: LoadedRecording = { recording, audio: wav.subarray(44) }
+      if (recording.files.response) {
+        loaded.responseAudio = await fsPromises.readFile(join(this.config.directory, recording.files.response))
+      }
+      return loaded
+    } catch (error) {
+      this.logger.warn('Failed to load session recording', { recordingId: id, error })
+      return null
+    }
+  }
+
+  /**
+   * Delete a recording and its files
+   */
+  async delete(id: string): Promise<void> {
+    const prefix = `${id}.`
+    for (const name of await this.readDirectory()) {
+      if (name.startsWith(prefix)) {
+        await fsPromises.rm(join(this.config.directory, name), { force: true })
+      }
+    }
+  }
+
+  /**
+   * Apply retention limits (age, then total size, oldest first)
+   * @returns Number of recordings deleted
+   */
+  prune(): Promise<number> {
+    // Concurrent saves share one pass
+    this.pruning ??= this.runPrune().finally(() => {
+      this.pruning = null
+    })
+    return this.pruning
+  }
+
+  private async runPrune(): Promise<number> {
+    const names = await this.readDirectory()
+    const entries: Map<string, { size: number; startedAt: number }> = new Map()
+
+    for (const name of names) {
+      const id = name.slice(0, name.indexOf('.'))
+      const stat = await fsPromises.stat(join(this.config.directory, name)).catch(() => null)
+      if (!stat) {
+        continue
+      }
+      // The ID starts with the session start time
+      const entry = entries.get(id) ?? { size: 0, startedAt: Number.parseInt(id, 10) || stat.mtimeMs }
+      entry.size += stat.size
+      entries.set(id, entry)
+    }
+
+    const oldestFirst = Array.from(entries.entries()).sort((a, b) => a[1].startedAt - b[1].startedAt)
+    let total = oldestFirst.reduce((sum, [, entry]) => sum + entry.size, 0)
+    const cutoff = Date.now() - this.config.maxAgeMs
+    let deleted = 0
+
+    for (const [id, entry] of oldestFirst) {
+      if (entry.startedAt >= cutoff && total <= this.config.maxTotalBytes) {
+        break
+      }
+      await this.delete(id)
+      total -= entry.size
+      deleted++
+    }
+
+    if (deleted > 0) {
+      this.logger.debug('Pruned session recordings', { deleted })
+    }
+    return deleted
+  }
+
+  private async readDirectory(): Promise<string[]> {
+    try {
+      return await fsPromises.readdir(this.config.directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+  }
+
+  private async readSidecar(id: string): Promise<SessionRecording | null> {
+    try {
+      const content = await fsPromises.readFile(join(this.config.directory, `${id}.json`), 'utf8')
+      const recording = JSON.parse(content) as SessionRecording
+      return recording.version === 1 ? recording : null
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Replay options
+ */
+export interface ReplayOptions {
+  /** Run synthesis on the new response (default: true) */
+  synthesize?: boolean
+  /** Context overrides for the conversation plugin */
+  context?: Partial<ConversationContext>
+  /** Aborts plugin calls */
+  signal?: AbortSignal
+}
+
+/**
+ * Result of replaying a recording through a pipeline
+ */
+export interface ReplayResult {
+  transcription: string | null
+  response: string | null
+  /** Synthesized audio (null when skipped or failed) */
+  audio: Buffer | null
+  timings: RecordingTimings
+  /** Whether the transcription equals the recorded one */
+  transcriptionMatches: boolean
+  /** Whether the response equals the recorded one */
+  responseMatches: boolean
+}
+
+/**
+ * Feed a recorded turn back through a pipeline (for reproducing issues and offline regressions)
+ * Stages stop at the first null result, as in the server.
+ * @param loaded Recording from SessionRecorder.load()
+ * @param pipeline Pipeline to run
+ * @param options Replay options
+ * @returns Replay result
+ */
+export async function replaySession(
+  loaded: LoadedRecording,
+  pipeline: PipelineConfig,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const { recording, audio } = loaded
+  const { signal } = options
+  const result: ReplayResult = {
+    transcription: null,
+    response: null,
+    audio: null,
+    timings: {},
+    transcriptionMatches: false,
+    responseMatches: false
+  }
+
+  let start = Date.now()
+  result.transcription = await pipeline.transcription.transcribe(audio, recording.header, { signal })
+  result.timings.transcriptionMs = Date.now() - start
+  result.transcriptionMatches = result.transcription === (recording.transcription ?? null)
+  if (!result.transcription) {
+    return result
+  }
+
+  const context: ConversationContext = {
+    sessionId: recording.sessionId,
+    conversationId: recording.conversationId,
+    userId: recording.userId,
+    ...options.context
+  }
+  start = Date.now()
+  result.response = await pipeline.conversation.generate(result.transcription, context, { signal })
+  result.timings.generationMs = Date.now() - start
+  result.responseMatches = result.response === (recording.response ?? null)
+  if (!result.response || options.synthesize === false) {
+    return result
+  }
+
+  start = Date.now()
+  result.audio = await pipeline.synthesis.synthesize(result.response, { signal })
+  result.timings.synthesisMs = Date.now() - start
+  return result
+}
@@ -0,0 +1,332 @@
+/**
+ * Resampler quality preset
+ * - 'fast': short filter, lowest CPU
+ * - 'medium': good anti-aliasing for speech (default)
+ * - 'high': long filter with a steep cutoff
+ */
+export type ResamplerQuality = 'fast' | 'medium' | 'high'
+
+/**
+ * Resampler options
+ */
+export interface ResamplerOptions {
+  /** Quality preset (default: 'medium') */
+  quality?: ResamplerQuality
+  /** Interleaved channels in the input (default: 1) */
+  channels?: number
+}
+
+interface QualityPreset {
+  /** Sinc zero crossings on each side of the center */
+  zeroCrossings: number
+  /** Cutoff as a fraction of the lower Nyquist frequency */
+  rolloff: number
+  /** Kaiser window beta */
+  beta: number
+  /** Maximum number of filter phases */
+  maxPhases: number
+}
+
+const QUALITY_PRESETS: Record<ResamplerQuality, QualityPreset> = {
+  fast: { zeroCrossings: 8, rolloff: 0.85, beta: 5, maxPhases: 256 },
+  medium: { zeroCrossings: 16, rolloff: 0.92, beta: 7, maxPhases: 1024 },
+  high: { zeroCrossings: 32, rolloff: 0.95, beta: 9.5, maxPhases: 4096 }
+}
+
+interface FilterBank {
+  /** Interpolation factor (reduced) */
+  up: number
+  /** Decimation factor (reduced) */
+  down: number
+  /** Number of phases in the bank */
+  phases: number
+  /** Taps on each side of the center */
+  half: number
+  /** Taps per phase (2 * half) */
+  taps: number
+  /** Coefficients, phase-major */
+  coeffs: Float32Array
+}
+
+const filterBanks: Map<string, FilterBank> = new Map()
+
+/**
+ * Streaming Resampler
+ * Polyphase windowed-sinc (Kaiser) resampler for interleaved 16-bit PCM.
+ * Keeps filter history between calls so chunked input produces the same output as one buffer.
+ */
+export class StreamResampler {
+  readonly srcRate: number
+  readonly dstRate: number
+  readonly channels: number
+  private bank: FilterBank | null
+  private history: Float32Array[]
+  private historyStart = 0
+  private historyLength = 0
+  private inputCount = 0
+  private outputCount = 0
+  private carry: Buffer = Buffer.alloc(0)
+
+  constructor(srcRate: number, dstRate: number, options: ResamplerOptions = {}) {
+    if (!(srcRate > 0) || !(dstRate > 0)) {
+      throw new Error(`Invalid sample rates: ${srcRate} -> ${dstRate}`)
+    }
+
+    this.srcRate = srcRate
+    this.dstRate = dstRate
+    this.channels = Math.max(1, options.channels ?? 1)
+    this.bank = srcRate === dstRate ? null : getFilterBank(srcRate, dstRate, options.quality ?? 'medium')
+    this.history = Array.from({ length: this.channels }, () => new Float32Array(0))
+  }
+
+  /**
+   * Output samples lag input by this many input frames until flush()
+   */
+  getLatencyFrames(): number {
+    return this.bank ? this.bank.half : 0
+  }
+
+  /**
+   * Resample a chunk of interleaved 16-bit little-endian PCM
+   * Partial frames are kept until the next call
+   * @returns Resampled PCM available so far (may be empty)
+   */
+  process(chunk: Buffer): Buffer {
+    const data = this.carry.length > 0 ? Buffer.concat([this.carry, chunk]) : chunk
+    const frameBytes = 2 * this.channels
+    const frames = Math.floor(data.length / frameBytes)
+    this.carry = Buffer.from(data.subarray(frames * frameBytes))
+
+    if (!this.bank) {
+      return data.subarray(0, frames * frameBytes)
+    }
+
+    this.reserve(frames)
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        this.history[ch]![this.historyLength + i] = data.readInt16LE((i * this.channels + ch) * 2)
+      }
+    }
+    this.historyLength += frames
+    this.inputCount += frames
+
+    return this.render(false)
+  }
+
+  /**
+   * Emit the remaining output (the filter tail) and reset for a new stream
+   */
+  flush(): Buffer {
+    const out = this.bank ? this.render(true) : Buffer.alloc(0)
+    this.reset()
+    return out
+  }
+
+  /**
+   * Drop all buffered input and start a new stream
+   */
+  reset(): void {
+    this.historyStart = 0
+    this.historyLength = 0
+    this.inputCount = 0
+    this.outputCount = 0
+    this.carry = Buffer.alloc(0)
+  }
+
+  /**
+   * Produce every output sample whose filter window is available
+   * @param final Treat input past the end as silence
+   */
+  private render(final: boolean): Buffer {
+    const bank = this.bank!
+    const { up, down, phases, half, taps, coeffs } = bank
+    const end = final
+      ? Math.ceil(this.inputCount * up / down)
+      : Math.floor((this.inputCount - half) * up / down) + 1
+    const count = Math.max(0, end - this.outputCount)
+    const out = Buffer.alloc(count * this.channels * 2)
+
+    let written = 0
+    while (this.outputCount < end) {
+      const pos = this.outputCount * down
+      let base = Math.floor(pos / up)
+      let phase = phases === up ? pos - base * up : Math.round((pos - base * up) * phases / up)
+      if (phase === phases) {
+        phase = 0
+        base++
+      }
+
+      const first = base - half + 1
+      if (!final && first + taps > this.inputCount) {
+        break
+      }
+
+      const offset = phase * taps
+      for (let ch = 0; ch < this.channels; ch++) {
+        const samples = this.history[ch]!
+        let acc = 0
+        for (let k = 0; k < taps; k++) {
+          const index = first + k
+          if (index < 0 || index >= this.inputCount) {
+            continue
+          }
+          acc += coeffs[offset + k]! * samples[index - this.historyStart]!
+        }
+        const value = Math.max(-32768, Math.min(32767, Math.round(acc)))
+        out.writeInt16LE(value, (written * this.channels + ch) * 2)
+      }
+
+      written++
+      this.outputCount++
+    }
+
+    this.trim()
+    return out.subarray(0, written * this.channels * 2)
+  }
+
+  /**
+   * Ensure room for more input frames
+   */
+  private reserve(frames: number): void {
+    const needed = this.historyLength + frames
+    const capacity = this.history[0]!.length
+    if (needed <= capacity) {
+      return
+    }
+
+    const size = Math.max(needed, capacity * 2, 1024)
+    this.history = this.history.map(samples => {
+      const grown = new Float32Array(size)
+      grown.set(samples.subarray(0, this.historyLength))
+      return grown
+    })
+  }
+
+  /**
+   * Discard input no longer needed by future output
+   */
+  private trim(): void {
+    const bank = this.bank!
+    const keepFrom = Math.max(0, Math.floor(this.outputCount * bank.down / bank.up) - bank.half)
+    const drop = Math.min(keepFrom - this.historyStart, this.historyLength)
+    if (drop <= 0) {
+      return
+    }
+
+    for (const samples of this.history) {
+      samples.copyWithin(0, drop, this.historyLength)
+    }
+    this.historyLength -= drop
+    this.historyStart += drop
+  }
+}
+
+/**
+ * Resample interleaved 16-bit PCM in one call
+ * @param data Interleaved 16-bit little-endian PCM
+ * @param srcRate Source sample rate
+ * @param dstRate Destination sample rate
+ * @param options Quality and channel count
+ * @returns Resampled PCM
+ */
+export function resamplePcm16(
+  data: Buffer,
+  srcRate: number,
+  dstRate: number,
+  options: ResamplerOptions = {}
+): Buffer {
+  if (srcRate === dstRate) {
+    return data
+  }
+
+  const resampler = new StreamResampler(srcRate, dstRate, options)
+  const head = resampler.process(data)
+  const tail = resampler.flush()
+  return tail.length > 0 ? Buffer.concat([head, tail]) : head
+}
+
+/**
+ * Build (or reuse) the polyphase filter bank for a rate pair
+ */
+function getFilterBank(srcRate: number, dstRate: number, quality: ResamplerQuality): FilterBank {
+  const key = `${srcRate}:${dstRate}:${quality}`
+  const cached = filterBanks.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const preset = QUALITY_PRESETS[quality]
+  const src = Math.round(srcRate)
+  const dst = Math.round(dstRate)
+  const divisor = gcd(src, dst)
+  const up = dst / divisor
+  const down = src / divisor
+  // Phases beyond maxPhases are rounded to the nearest one
+  const phases = Math.min(up, preset.maxPhases)
+
+  // Cutoff relative to the input Nyquist frequency; lowered when downsampling
+  const cutoff = Math.min(1, up / down) * preset.rolloff
+  const half = Math.ceil(preset.zeroCrossings / cutoff)
+  const taps = 2 * half
+  const coeffs = new Float32Array(phases * taps)
+  const i0Beta = besselI0(preset.beta)
+
+  for (let phase = 0; phase < phases; phase++) {
+    const frac = phase / phases
+    let sum = 0
+
+    for (let k = 0; k < taps; k++) {
+      const t = k - half + 1 - frac
+      const x = t / half
+      const window = Math.abs(x) >= 1 ? 0 : besselI0(preset.beta * Math.sqrt(1 - x * x)) / i0Beta
+      const value = cutoff * sinc(cutoff * t) * window
+      coeffs[phase * taps + k] = value
+      sum += value
+    }
+
+    // Unity gain at DC for every phase
+    if (sum !== 0) {
+      for (let k = 0; k < taps; k++) {
+        coeffs[phase * taps + k]! /= sum
+      }
+    }
+  }
+
+  const bank = { up, down, phases, half, taps, coeffs }
+  filterBanks.set(key, bank)
+  return bank
+}
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1
+  }
+  const px = Math.PI * x
+  return Math.sin(px) / px
+}
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (series expansion)
+ */
+function besselI0(x: number): number {
+  let sum = 1
+  let term = 1
+  const halfX = x / 2
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k)
+    sum += term
+    if (term < sum * 1e-12) {
+      break
+    }
+  }
+  return sum
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    const t = b
+    b = a % b
+    a = t
+  }
+  return a
+}
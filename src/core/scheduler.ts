@@ -0,0 +1,373 @@
+import { silentLogger, type Logger } from './logger.js'
+
+/**
+ * Pipeline stages with their own concurrency caps
+ */
+export type SchedulerStage = 'transcription' | 'generation' | 'synthesis'
+
+/**
+ * What to do with a new turn when the queue is full
+ * - 'reject': reject the new turn
+ * - 'shed_oldest': drop the longest-waiting turn and queue the new one
+ */
+export type OverflowPolicy = 'reject' | 'shed_oldest'
+
+/**
+ * Why a turn did not get a slot
+ * - 'queue_full': the queue was full ('reject' policy)
+ * - 'shed': dropped for a newer turn ('shed_oldest' policy)
+ * - 'timeout': waited longer than maxWaitMs
+ */
+export type RejectReason = 'queue_full' | 'shed' | 'timeout'
+
+/**
+ * Pipeline scheduler configuration
+ */
+export interface SchedulerConfig {
+  /** Turns processed at once across all connections (default: unlimited) */
+  maxConcurrent?: number
+  /** Concurrent plugin calls per stage (default: unlimited) */
+  stageConcurrency?: Partial<Record<SchedulerStage, number>>
+  /** Turns waiting for a slot (default: unlimited) */
+  maxQueued?: number
+  /** Policy when the queue is full (default: 'reject') */
+  overflow?: OverflowPolicy
+  /** Reject turns that wait longer than this in milliseconds (default: 0, no limit) */
+  maxWaitMs?: number
+  /** Logger (default: silent) */
+  logger?: Logger
+}
+
+/**
+ * Options for acquiring a turn slot
+ */
+export interface AcquireOptions {
+  /** Gives up the wait (the result is null) */
+  signal?: AbortSignal
+  /** Called when the turn is queued and whenever its position changes (1 = next) */
+  onQueued?: (position: number) => void
+  /** Called when the turn is rejected */
+  onRejected?: (reason: RejectReason) => void
+}
+
+interface Waiter {
+  key: unknown
+  options: AcquireOptions
+  position: number
+  resolve: (slot: TurnSlot | null) => void
+  cleanup: () => void
+}
+
+/**
+ * Counting limiter for one pipeline stage
+ */
+class StageLimiter {
+  private limit: number
+  private active = 0
+  private waiters: Array<() => void> = []
+
+  constructor(limit: number) {
+    this.limit = limit
+  }
+
+  getActiveCount(): number {
+    return this.active
+  }
+
+  getWaitingCount(): number {
+    return this.waiters.length
+  }
+
+  /**
+   * Wait for a free slot
+   * @returns False if the signal aborted first
+   */
+  acquire(signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false)
+    }
+    if (this.active < this.limit) {
+      this.active++
+      return Promise.resolve(true)
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        this.active++
+        resolve(true)
+      }
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(waiter => waiter !== grant)
+        resolve(false)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.waiters.push(grant)
+    })
+  }
+
+  release(): void {
+    this.active--
+    this.waiters.shift()?.()
+  }
+}
+
+/**
+ * Turn Slot
+ * Admission for one turn; release it when the turn no longer needs pipeline capacity
+ */
+export class TurnSlot {
+  private scheduler: PipelineScheduler
+  private released = false
+  readonly key: unknown
+
+  constructor(scheduler: PipelineScheduler, key: unknown) {
+    this.scheduler = scheduler
+    this.key = key
+  }
+
+  /**
+   * Run a plugin call within the stage's concurrency cap
+   * @throws Error if the signal aborts while waiting for the stage
+   */
+  runStage<T>(stage: SchedulerStage, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.scheduler.runStage(stage, call, signal)
+  }
+
+  /**
+   * Run a streaming plugin call within the stage's concurrency cap
+   * @throws Error if the signal aborts while waiting for the stage
+   */
+  runStageStream<T>(stage: SchedulerStage, open: () => AsyncIterable<T>, signal?: AbortSignal): AsyncIterable<T> {
+    return this.scheduler.runStageStream(stage, open, signal)
+  }
+
+  /**
+   * Return the slot (safe to call more than once)
+   */
+  release(): void {
+    if (this.released) {
+      return
+    }
+    this.released = true
+    this.scheduler.releaseSlot(this)
+  }
+}
+
+/**
+ * Pipeline Scheduler
+ * Admits turns under a global concurrency cap with one turn per connection, keeps the rest in a
+ * bounded FIFO queue, and limits concurrent calls per stage.
+ */
+export class PipelineScheduler {
+  private config: Required<Omit<SchedulerConfig, 'stageConcurrency' | 'logger'>>
+  private logger: Logger
+  private stageLimiters: Map<SchedulerStage, StageLimiter> = new Map()
+  private active: Set<TurnSlot> = new Set()
+  private activeKeys: Set<unknown> = new Set()
+  private queue: Waiter[] = []
+
+  constructor(config: SchedulerConfig = {}) {
+    this.config = {
+      maxConcurrent: config.maxConcurrent ?? Infinity,
+      maxQueued: config.maxQueued ?? Infinity,
+      overflow: config.overflow ?? 'reject',
+      maxWaitMs: config.maxWaitMs ?? 0
+    }
+    this.logger = config.logger ?? silentLogger
+
+    for (const [stage, limit] of Object.entries(config.stageConcurrency ?? {}) as Array<[SchedulerStage, number]>) {
+      if (Number.isFinite(limit)) {
+        this.stageLimiters.set(stage, new StageLimiter(Math.max(1, limit)))
+      }
+    }
+  }
+
+  /**
+   * Wait for a turn slot
+   * @param key Connection the turn belongs to; a key holds at most one slot
+   * @param options Abort signal and queue callbacks
+   * @returns Slot, or null if rejected, shed, timed out or aborted
+   */
+  acquire(key: unknown, options: AcquireOptions = {}): Promise<TurnSlot | null> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(null)
+    }
+
+    if (this.queue.length === 0 && this.canStart(key)) {
+      return Promise.resolve(this.start(key))
+    }
+
+    if (this.queue.length >= this.config.maxQueued) {
+      const oldest = this.config.overflow === 'shed_oldest' ? this.queue[0] : undefined
+      if (!oldest) {
+        this.logger.warn('Pipeline queue full, turn rejected', { queued: this.queue.length })
+        options.onRejected?.('queue_full')
+        return Promise.resolve(null)
+      }
+      this.logger.warn('Pipeline queue full, oldest turn shed', { queued: this.queue.length })
+      this.reject(oldest, 'shed')
+    }
+
+    return new Promise<TurnSlot | null>((resolve) => {
+      const { signal } = options
+      let timer: NodeJS.Timeout | undefined
+
+      const onAbort = () => {
+        this.remove(waiter)
+        resolve(null)
+      }
+      const waiter: Waiter = {
+        key,
+        options,
+        position: 0,
+        resolve,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      if (this.config.maxWaitMs > 0) {
+        timer = setTimeout(() => this.reject(waiter, 'timeout'), this.config.maxWaitMs)
+      }
+
+      this.queue.push(waiter)
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Turns waiting for a slot
+   */
+  getQueueDepth(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Turns holding a slot
+   */
+  getActiveCount(): number {
+    return this.active.size
+  }
+
+  /**
+   * Plugin calls running and waiting per capped stage
+   */
+  getStageStats(): Partial<Record<SchedulerStage, { active: number; waiting: number }>> {
+    const stats: Partial<Record<SchedulerStage, { active: number; waiting: number }>> = {}
+    for (const [stage, limiter] of this.stageLimiters) {
+      stats[stage] = { active: limiter.getActiveCount(), waiting: limiter.getWaitingCount() }
+    }
+    return stats
+  }
+
+  /**
+   * Run a plugin call within the stage's concurrency cap
+   * @throws Error if the signal aborts while waiting for the stage
+   */
+  async runStage<T>(stage: SchedulerStage, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const limiter = this.stageLimiters.get(stage)
+    if (!limiter) {
+      return call()
+    }
+
+    if (!await limiter.acquire(signal)) {
+      throw new Error(`Aborted while waiting for ${stage}`)
+    }
+    try {
+      return await call()
+    } finally {
+      limiter.release()
+    }
+  }
+
+  /**
+   * Run a streaming plugin call within the stage's concurrency cap
+   * The stage is held from the first read until the stream ends or is abandoned.
+   * @throws Error if the signal aborts while waiting for the stage
+   */
+  async *runStageStream<T>(stage: SchedulerStage, open: () => AsyncIterable<T>, signal?: AbortSignal): AsyncIterable<T> {
+    const limiter = this.stageLimiters.get(stage)
+    if (limiter && !await limiter.acquire(signal)) {
+      throw new Error(`Aborted while waiting for ${stage}`)
+    }
+    try {
+      yield* open()
+    } finally {
+      limiter?.release()
+    }
+  }
+
+  /**
+   * Return a slot (use TurnSlot.release())
+   */
+  releaseSlot(slot: TurnSlot): void {
+    if (!this.active.delete(slot)) {
+      return
+    }
+    this.activeKeys.delete(slot.key)
+    this.dispatch()
+  }
+
+  private canStart(key: unknown): boolean {
+    return this.active.size < this.config.maxConcurrent && !this.activeKeys.has(key)
+  }
+
+  private start(key: unknown): TurnSlot {
+    const slot = new TurnSlot(this, key)
+    this.active.add(slot)
+    this.activeKeys.add(key)
+    return slot
+  }
+
+  /**
+   * Start queued turns while capacity allows, in arrival order
+   * A turn whose connection still holds a slot waits without blocking others.
+   */
+  private dispatch(): void {
+    for (let i = 0; i < this.queue.length && this.active.size < this.config.maxConcurrent;) {
+      const waiter = this.queue[i]!
+      if (this.activeKeys.has(waiter.key)) {
+        i++
+        continue
+      }
+      this.queue.splice(i, 1)
+      waiter.cleanup()
+      waiter.resolve(this.start(waiter.key))
+    }
+    this.updatePositions()
+  }
+
+  private reject(waiter: Waiter, reason: RejectReason): void {
+    if (!this.remove(waiter, false)) {
+      return
+    }
+    waiter.options.onRejected?.(reason)
+    waiter.resolve(null)
+    this.updatePositions()
+  }
+
+  private remove(waiter: Waiter, notify: boolean = true): boolean {
+    const index = this.queue.indexOf(waiter)
+    if (index === -1) {
+      return false
+    }
+    this.queue.splice(index, 1)
+    waiter.cleanup()
+    if (notify) {
+      this.updatePositions()
+    }
+    return true
+  }
+
+  private updatePositions(): void {
+    this.queue.forEach((waiter, index) => {
+      if (waiter.position !== index + 1) {
+        waiter.position = index + 1
+        waiter.options.onQueued?.(waiter.position)
+      }
+    })
+  }
+}
@@ -1,5 +1,8 @@
 import type { StreamingSession, PcmHeader } from '../types/index.js'
 import { calculateDuration } from './pcm.js'
+import { SampleBuffer, PreRollBuffer } from './audio-buffer.js'
+import { VoiceActivityDetector, type VadConfig, type VadEvent } from './vad.js'
+import { silentLogger, type Logger } from './logger.js'
 
 /**
  * Session constraints configuration
@@ -7,14 +10,38 @@ import { calculateDuration } from './pcm.js'
 export interface SessionConfig {
   /** Maximum session size in bytes (default: 5MB) */
   maxBytes?: number
-  /** Maximum session duration in milliseconds (default: 60s) */
+  /** Maximum session duration in milliseconds; also sizes the audio buffer (default: 60s) */
   maxDurationMs?: number
-  /** Maximum number of audio chunks (default: 200) */
+  /** Maximum number of audio chunks (default: unlimited) */
   maxChunks?: number
-  /** Idle timeout in milliseconds (default: 5s) */
+  /**
+   * With VAD, capture audio from speech start instead of from the header, keeping this many
+   * milliseconds from before the trigger (default: 0, VAD's minSpeechMs plus 200 ms)
+   */
+  preRollMs?: number
+  /** End a streaming session that receives no audio for this long in milliseconds (default: 5s) */
   idleTimeoutMs?: number
+  /** How often idle and over-duration sessions are reaped in milliseconds (default: 1s, 0 disables) */
+  reapIntervalMs?: number
+  /** Run the pipeline on audio buffered by a session that went idle instead of discarding it (default: false) */
+  processOnIdle?: boolean
+  /** Voice activity detection; when set, incoming chunks are analyzed to detect end of speech */
+  vad?: VadConfig
+  /** Logger for session lifecycle and limit events (default: silent) */
+  logger?: Logger
 }
 
+/** Audio kept before VAD speech start beyond minSpeechMs when no preRollMs is set */
+const VAD_ONSET_MARGIN_MS = 200
+
+/**
+ * Why a session ended
+ * - 'ended': endSession() was called (END signal, disconnect, shutdown)
+ * - 'idle': the reaper found no audio for idleTimeoutMs
+ * - 'max_duration': the reaper found the stream running past maxDurationMs
+ */
+export type SessionEndReason = 'ended' | 'idle' | 'max_duration'
+
 /**
  * Session event callbacks
  */
@@ -22,11 +49,15 @@ export interface SessionCallbacks {
   /** Called when a session is created */
   onCreate?: (session: StreamingSession) => void | Promise<void>
   /** Called when a session is ended */
-  onEnd?: (session: StreamingSession) => void | Promise<void>
+  onEnd?: (session: StreamingSession, reason: SessionEndReason) => void | Promise<void>
   /** Called when a session exceeds limits */
   onLimitExceeded?: (session: StreamingSession, reason: string) => void
-  /** Called when a session becomes idle */
+  /** Called once when a session goes idle, before the reaper ends it */
   onIdle?: (session: StreamingSession) => void | Promise<void>
+  /** Called when voice activity detection reports the start of speech */
+  onSpeechStart?: (session: StreamingSession, event: VadEvent) => void
+  /** Called when voice activity detection reports the end of speech */
+  onSpeechEnd?: (session: StreamingSession, event: VadEvent) => void
 }
 
 /**
@@ -36,18 +67,31 @@ export interface SessionCallbacks {
 export class SessionManager {
   private sessions: Map<string, StreamingSession> = new Map()
   private lastActivity: Map<string, number> = new Map()
-  private config: Required<SessionConfig>
+  private detectors: Map<string, VoiceActivityDetector> = new Map()
+  private preRolls: Map<string, PreRollBuffer> = new Map()
+  private captureHolds: Set<string> = new Set()
+  private speechHeard: Set<string> = new Set()
+  private pausedAt: Map<string, number> = new Map()
+  private reaper: NodeJS.Timeout | null = null
+  private reaping: Promise<number> | null = null
+  private config: Required<Omit<SessionConfig, 'vad' | 'logger'>> & Pick<SessionConfig, 'vad'>
   private callbacks: SessionCallbacks
+  private logger: Logger
 
   constructor(config: SessionConfig = {}, callbacks: SessionCallbacks = {}) {
+    const { logger, ...limits } = config
     this.config = {
       maxBytes: 5 * 1024 * 1024,  // 5MB
       maxDurationMs: 60_000,      // 60 seconds
-      maxChunks: 200,
+      maxChunks: Infinity,
+      preRollMs: 0,
       idleTimeoutMs: 5_000,       // 5 seconds
-      ...config
+      reapIntervalMs: 1_000,
+      processOnIdle: false,
+      ...limits
     }
     this.callbacks = callbacks
+    this.logger = logger ?? silentLogger
   }
 
   /**
@@ -56,7 +100,8 @@ export class SessionManager {
   createSession(sessionId: string, header: PcmHeader | null = null): StreamingSession {
     const session: StreamingSession = {
       sessionId,
-      dataChunks: [],
+      audio: null,
+      chunkCount: 0,
       startTime: Date.now(),
       totalBytes: 0,
       header
@@ -64,14 +109,19 @@ export class SessionManager {
 
     this.sessions.set(sessionId, session)
     this.lastActivity.set(sessionId, Date.now())
+    if (header) {
+      this.prepareCapture(session, header)
+      this.attachDetector(sessionId, header)
+    }
+    this.startReaper()
 
     if (this.callbacks.onCreate) {
       Promise.resolve(this.callbacks.onCreate(session)).catch(error => {
-        console.error('Error in onCreate callback:', error)
+        this.logger.error('Error in onCreate callback', { sessionId, error })
       })
     }
 
-    console.log(`Session created: ${sessionId}`)
+    this.logger.debug('Session created', { sessionId })
     return session
   }
 
@@ -98,11 +148,170 @@ export class SessionManager {
       return false
     }
 
+    // Duration limits count from the start of the stream, not from when the session was opened
+    if (session.totalBytes === 0) {
+      session.startTime = Date.now()
+      this.prepareCapture(session, header)
+    }
     session.header = header
     this.lastActivity.set(sessionId, Date.now())
+    this.attachDetector(sessionId, header)
     return true
   }
 
+  /**
+   * Check whether voice activity detection reports ongoing speech
+   */
+  isSpeaking(sessionId: string): boolean {
+    return this.detectors.get(sessionId)?.isSpeaking() ?? false
+  }
+
+  /**
+   * Stop the session's idle and duration clocks, e.g. while a dropped connection may resume
+   * The reaper leaves paused sessions alone.
+   * @returns False if the session does not exist
+   */
+  pauseSession(sessionId: string): boolean {
+    if (!this.sessions.has(sessionId)) {
+      return false
+    }
+
+    if (!this.pausedAt.has(sessionId)) {
+      this.pausedAt.set(sessionId, Date.now())
+    }
+    return true
+  }
+
+  /**
+   * Restart clocks stopped by pauseSession(); the paused time does not count
+   * @returns False if the session does not exist
+   */
+  resumeSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return false
+    }
+
+    const pausedAt = this.pausedAt.get(sessionId)
+    if (pausedAt !== undefined) {
+      this.pausedAt.delete(sessionId)
+      session.startTime += Date.now() - pausedAt
+    }
+    this.lastActivity.set(sessionId, Date.now())
+    return true
+  }
+
+  /**
+   * Whether the session may contain speech: true once VAD has reported speech start,
+   * and always true when VAD is disabled
+   */
+  hasSpeech(sessionId: string): boolean {
+    return !this.config.vad || this.speechHeard.has(sessionId)
+  }
+
+  /**
+   * Whether the session stores incoming audio (false while only the pre-roll is kept)
+   */
+  isCapturing(sessionId: string): boolean {
+    return this.sessions.has(sessionId) && !this.preRolls.has(sessionId)
+  }
+
+  /**
+   * Keep only the pre-roll until startCapture() is called
+   * VAD speech start does not start capture for a held session (e.g. one gated by a wake word).
+   * @returns False if the session does not exist or has no header
+   */
+  holdCapture(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId)
+    if (!session?.header) {
+      return false
+    }
+
+    if (!this.preRolls.has(sessionId)) {
+      this.preRolls.set(sessionId, new PreRollBuffer(session.header, this.config.preRollMs))
+    }
+    this.captureHolds.add(sessionId)
+    return true
+  }
+
+  /**
+   * Start capturing audio, beginning with the pre-roll
+   * Called on VAD speech start; call it for other triggers such as a wake word.
+   * @returns False if the session does not exist or is already capturing
+   */
+  startCapture(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId)
+    const preRoll = this.preRolls.get(sessionId)
+    if (!session || !preRoll) {
+      return false
+    }
+
+    this.preRolls.delete(sessionId)
+    this.captureHolds.delete(sessionId)
+    if (session.totalBytes === 0) {
+      session.startTime = Date.now()
+    }
+    const audio = preRoll.read()
+    if (audio.length > 0 && session.audio?.append(audio)) {
+      session.totalBytes = session.audio.byteLength
+      session.chunkCount++
+    }
+
+    this.logger.debug('Audio capture started', { sessionId, preRollBytes: audio.length })
+    return true
+  }
+
+  /**
+   * Allocate the session's audio buffer, and a pre-roll ring when capture waits for speech
+   * With VAD, audio before speech start never reaches the buffer, so silence cannot fill it.
+   */
+  private prepareCapture(session: StreamingSession, header: PcmHeader): void {
+    session.audio = SampleBuffer.forDuration(header, this.config.maxDurationMs, this.config.maxBytes)
+    this.captureHolds.delete(session.sessionId)
+
+    const vad = this.config.vad
+    if (vad) {
+      // Without a configured pre-roll, keep the audio VAD needed to report speech start (default 120 ms)
+      const preRollMs = this.config.preRollMs > 0 ? this.config.preRollMs : (vad.minSpeechMs ?? 120) + VAD_ONSET_MARGIN_MS
+      this.preRolls.set(session.sessionId, new PreRollBuffer(header, preRollMs))
+    } else {
+      this.preRolls.delete(session.sessionId)
+    }
+  }
+
+  /**
+   * Create a voice activity detector for the session if VAD is enabled
+   */
+  private attachDetector(sessionId: string, header: PcmHeader): void {
+    if (!this.config.vad) {
+      return
+    }
+
+    this.detectors.set(sessionId, new VoiceActivityDetector(header, this.config.vad))
+  }
+
+  /**
+   * Run voice activity detection on a chunk and dispatch events
+   */
+  private detectActivity(session: StreamingSession, chunk: Buffer): void {
+    const detector = this.detectors.get(session.sessionId)
+    if (!detector) {
+      return
+    }
+
+    for (const event of detector.process(chunk)) {
+      if (event.type === 'speech_start') {
+        this.speechHeard.add(session.sessionId)
+        if (!this.captureHolds.has(session.sessionId)) {
+          this.startCapture(session.sessionId)
+        }
+        this.callbacks.onSpeechStart?.(session, event)
+      } else {
+        this.callbacks.onSpeechEnd?.(session, event)
+      }
+    }
+  }
+
   /**
    * Add audio chunk to session
    * Returns false if session limits exceeded
@@ -110,55 +319,72 @@ export class SessionManager {
   addChunk(sessionId: string, chunk: Buffer): boolean {
     const session = this.sessions.get(sessionId)
     if (!session) {
-      console.warn(`Session not found: ${sessionId}`)
+      this.logger.warn('Session not found', { sessionId })
       return false
     }
 
-    // Check limits
-    const newTotalBytes = session.totalBytes + chunk.length
-    if (newTotalBytes > this.config.maxBytes) {
-      console.warn(`Session ${sessionId} exceeded max bytes: ${newTotalBytes} > ${this.config.maxBytes}`)
-      if (this.callbacks.onLimitExceeded) {
-        this.callbacks.onLimitExceeded(session, 'max_bytes')
-      }
-      return false
+    // Audio before a header has no format; store it byte by byte
+    session.audio ??= new SampleBuffer({ sample_rate: 0, channels: 1, bits: 8 }, this.config.maxBytes)
+
+    // Before capture starts, only the most recent audio is kept
+    const preRoll = this.preRolls.get(sessionId)
+    if (preRoll) {
+      preRoll.write(chunk)
+      this.lastActivity.set(sessionId, Date.now())
+      this.detectActivity(session, chunk)
+      return true
     }
 
-    const duration = Date.now() - session.startTime
-    if (duration > this.config.maxDurationMs) {
-      console.warn(`Session ${sessionId} exceeded max duration: ${duration}ms > ${this.config.maxDurationMs}ms`)
+    // Check limits
+    if (session.chunkCount >= this.config.maxChunks) {
+      this.logger.warn('Session exceeded max chunks', {
+        sessionId,
+        chunks: session.chunkCount,
+        limit: this.config.maxChunks
+      })
       if (this.callbacks.onLimitExceeded) {
-        this.callbacks.onLimitExceeded(session, 'max_duration')
+        this.callbacks.onLimitExceeded(session, 'max_chunks')
       }
       return false
     }
 
-    if (session.dataChunks.length >= this.config.maxChunks) {
-      console.warn(`Session ${sessionId} exceeded max chunks: ${session.dataChunks.length} >= ${this.config.maxChunks}`)
-      if (this.callbacks.onLimitExceeded) {
-        this.callbacks.onLimitExceeded(session, 'max_chunks')
+    // The buffer holds maxDurationMs of audio, capped at maxBytes
+    if (!session.audio.append(chunk)) {
+      const newTotalBytes = session.totalBytes + chunk.length
+      if (newTotalBytes > this.config.maxBytes) {
+        this.logger.warn('Session exceeded max bytes', { sessionId, bytes: newTotalBytes, limit: this.config.maxBytes })
+        this.callbacks.onLimitExceeded?.(session, 'max_bytes')
+      } else {
+        this.logger.warn('Session exceeded max duration', {
+          sessionId,
+          durationMs: session.audio.durationMs,
+          limit: this.config.maxDurationMs
+        })
+        this.callbacks.onLimitExceeded?.(session, 'max_duration')
       }
       return false
     }
 
-    // Add chunk
-    session.dataChunks.push(chunk)
-    session.totalBytes = newTotalBytes
+    session.totalBytes = session.audio.byteLength
+    session.chunkCount++
     this.lastActivity.set(sessionId, Date.now())
 
+    this.detectActivity(session, chunk)
+
     return true
   }
 
   /**
-   * Get concatenated audio data for session
+   * Get the captured audio for a session
+   * The buffer is a view of the session's storage, not a copy.
    */
   getAudioData(sessionId: string): Buffer | null {
-    const session = this.sessions.get(sessionId)
-    if (!session || session.dataChunks.length === 0) {
+    const audio = this.sessions.get(sessionId)?.audio
+    if (!audio || audio.frames === 0) {
       return null
     }
 
-    return Buffer.concat(session.dataChunks)
+    return audio.view()
   }
 
   /**
@@ -190,15 +416,16 @@ export class SessionManager {
     return {
       duration,
       totalBytes: session.totalBytes,
-      chunkCount: session.dataChunks.length,
+      chunkCount: session.chunkCount,
       audioDuration
     }
   }
 
   /**
    * End a session and remove it
+   * @param reason Passed to the onEnd callback
    */
-  async endSession(sessionId: string): Promise<StreamingSession | null> {
+  async endSession(sessionId: string, reason: SessionEndReason = 'ended'): Promise<StreamingSession | null> {
     const session = this.sessions.get(sessionId)
     if (!session) {
       return null
@@ -206,33 +433,93 @@ export class SessionManager {
 
     this.sessions.delete(sessionId)
     this.lastActivity.delete(sessionId)
+    this.detectors.delete(sessionId)
+    this.preRolls.delete(sessionId)
+    this.captureHolds.delete(sessionId)
+    this.speechHeard.delete(sessionId)
+    this.pausedAt.delete(sessionId)
 
     if (this.callbacks.onEnd) {
-      await Promise.resolve(this.callbacks.onEnd(session))
+      await Promise.resolve(this.callbacks.onEnd(session, reason))
     }
 
-    console.log(`Session ended: ${sessionId}`)
+    this.logger.debug('Session ended', { sessionId, reason })
     return session
   }
 
   /**
-   * Check for idle sessions and call callback
+   * End streaming sessions that went idle or ran past maxDurationMs
+   * Runs every reapIntervalMs while sessions exist. Sessions without a header are
+   * waiting for a stream and are left alone, as are paused sessions.
+   * @returns Number of sessions ended
    */
-  checkIdleSessions(): void {
+  checkIdleSessions(): Promise<number> {
+    // Overlapping checks share one pass so onIdle fires once per session
+    this.reaping ??= this.reapSessions().finally(() => {
+      this.reaping = null
+    })
+    return this.reaping
+  }
+
+  private async reapSessions(): Promise<number> {
     const now = Date.now()
+    const expired: Array<[string, SessionEndReason]> = []
+
+    for (const [sessionId, session] of this.sessions) {
+      if (!session.header || this.pausedAt.has(sessionId)) {
+        continue
+      }
+      // Duration counts from the start of capture (speech start with VAD); a stream still
+      // waiting for speech or a wake word only keeps its pre-roll and cannot run over
+      if (now - session.startTime > this.config.maxDurationMs && !this.preRolls.has(sessionId)) {
+        expired.push([sessionId, 'max_duration'])
+      } else if (now - (this.lastActivity.get(sessionId) ?? session.startTime) > this.config.idleTimeoutMs) {
+        expired.push([sessionId, 'idle'])
+      }
+    }
 
-    for (const [sessionId, lastActivityTime] of this.lastActivity) {
-      const idleTime = now - lastActivityTime
+    let ended = 0
+    for (const [sessionId, reason] of expired) {
+      const session = this.sessions.get(sessionId)
+      if (!session) {
+        continue
+      }
 
-      if (idleTime > this.config.idleTimeoutMs) {
-        const session = this.sessions.get(sessionId)
-        if (session && this.callbacks.onIdle) {
-          Promise.resolve(this.callbacks.onIdle(session)).catch(error => {
-            console.error('Error in onIdle callback:', error)
-          })
+      this.logger.info('Session timed out', { sessionId, reason })
+      try {
+        if (reason === 'idle' && this.callbacks.onIdle) {
+          await Promise.resolve(this.callbacks.onIdle(session))
         }
+        if (await this.endSession(sessionId, reason)) {
+          ended++
+        }
+      } catch (error) {
+        this.logger.error('Error ending timed-out session', { sessionId, reason, error })
       }
     }
+
+    return ended
+  }
+
+  private startReaper(): void {
+    if (this.reaper || this.config.reapIntervalMs <= 0) {
+      return
+    }
+
+    this.reaper = setInterval(() => {
+      this.checkIdleSessions().catch(error => {
+        this.logger.error('Error reaping sessions', { error })
+      })
+    }, this.config.reapIntervalMs)
+    // The reaper alone does not keep the process running
+    this.reaper.unref()
+  }
+
+  private stopReaper(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper)
+      this.reaper = null
+    }
   }
 
   /**
@@ -253,6 +540,7 @@ export class SessionManager {
    * Clear all sessions
    */
   async clearAll(): Promise<void> {
+    this.stopReaper()
     const sessionIds = Array.from(this.sessions.keys())
 
     for (const sessionId of sessionIds) {
@@ -261,6 +549,9 @@ export class SessionManager {
 
     this.sessions.clear()
     this.lastActivity.clear()
+    this.detectors.clear()
+    this.preRolls.clear()
+    this.captureHolds.clear()
   }
 
   /**
@@ -0,0 +1,177 @@
+import type { PcmHeader } from '../types/index.js'
+import { StreamResampler, type ResamplerQuality } from './resampler.js'
+import { FilterChain, type FilterStage } from './filters.js'
+import { createFrameDecoder, type CodecDecoders, type FrameDecoder } from './codecs.js'
+import { ChannelMixer, type ChannelPolicy } from './channels.js'
+
+/**
+ * Uplink (device to server) audio processing configuration
+ */
+export interface UplinkConfig {
+  /** Sample rate delivered to transcription (default: the transcription plugin's inputSampleRate, or the device rate) */
+  sampleRate?: number
+  /** Resampler quality preset (default: 'medium') */
+  resampleQuality?: ResamplerQuality
+  /**
+   * Filter chain applied after resampling, in order
+   * Pass a function to choose stages per device (return undefined for no filtering)
+   */
+  filters?: FilterStage[] | ((deviceId: string | undefined) => FilterStage[] | undefined)
+  /** Decoders for compressed uplink codecs (IMA ADPCM is built in; Opus needs a factory) */
+  codecs?: CodecDecoders
+  /**
+   * Reduction of multi-channel audio, applied before resampling (default: 'keep')
+   * Pass a function to choose a policy per device (return undefined to keep all channels)
+   */
+  channelPolicy?: ChannelPolicy | ((deviceId: string | undefined) => ChannelPolicy | undefined)
+  /** Audio analyzed before the 'best_snr' policy picks a channel, in milliseconds (default: 300) */
+  channelDecisionMs?: number
+}
+
+/**
+ * Uplink Processor
+ * Decodes and converts device audio to the format expected by transcription before it is buffered.
+ * One instance per connection and audio format; state carries across chunks.
+ */
+export class UplinkProcessor {
+  /** Header as sent by the device */
+  readonly inputHeader: PcmHeader
+  /** Header describing the processed audio */
+  readonly header: PcmHeader
+  /** Device whose per-device settings were applied */
+  readonly deviceId: string | undefined
+  private decoder: FrameDecoder | null = null
+  private mixer: ChannelMixer | null = null
+  private resampler: StreamResampler | null = null
+  private filters: FilterChain | null = null
+
+  /**
+   * @param header Header sent by the device
+   * @param config Uplink configuration
+   * @param deviceId Device the audio comes from (for per-device filters and channel policy)
+   * @throws Error if the header declares a codec without a decoder
+   */
+  constructor(header: PcmHeader, config: UplinkConfig = {}, deviceId?: string) {
+    this.inputHeader = header
+    this.deviceId = deviceId
+
+    // Compressed audio is decoded to 16-bit PCM first
+    let decoded = header
+    const codec = header.codec ?? 'pcm'
+    if (codec !== 'pcm') {
+      this.decoder = createFrameDecoder(codec, {
+        sampleRate: header.sample_rate,
+        channels: header.channels,
+        frameSamps: header.frame_samps
+      }, config.codecs)
+      if (!this.decoder) {
+        throw new Error(`No decoder configured for codec: ${codec}`)
+      }
+      decoded = { ...header, bits: 16, reserved: 0, codec: 'pcm' }
+    }
+
+    // Multi-channel audio is reduced to mono before anything else touches it
+    const policy = typeof config.channelPolicy === 'function' ? config.channelPolicy(deviceId) : config.channelPolicy
+    if (decoded.bits === 16 && decoded.channels > 1 && policy && policy !== 'keep') {
+      this.mixer = new ChannelMixer(decoded.channels, policy, {
+        sampleRate: decoded.sample_rate,
+        decisionMs: config.channelDecisionMs
+      })
+      decoded = { ...decoded, channels: 1 }
+    }
+
+    const targetRate = config.sampleRate ?? decoded.sample_rate
+    if (decoded.bits === 16 && targetRate !== decoded.sample_rate) {
+      this.resampler = new StreamResampler(decoded.sample_rate, targetRate, {
+        quality: config.resampleQuality,
+        channels: decoded.channels
+      })
+      this.header = {
+        ...decoded,
+        sample_rate: targetRate,
+        frame_samps: Math.max(1, Math.round(decoded.frame_samps * targetRate / decoded.sample_rate))
+      }
+    } else {
+      this.header = decoded
+    }
+
+    const stages = typeof config.filters === 'function' ? config.filters(deviceId) : config.filters
+    if (this.header.bits === 16 && stages && stages.length > 0) {
+      this.filters = new FilterChain(stages, {
+        sampleRate: this.header.sample_rate,
+        channels: this.header.channels
+      })
+    }
+  }
+
+  /**
+   * Whether this processor handles audio in the given device format
+   * @param deviceId Device the audio comes from; per-device settings must match too
+   */
+  matches(header: PcmHeader, deviceId?: string): boolean {
+    return deviceId === this.deviceId &&
+      header.sample_rate === this.inputHeader.sample_rate &&
+      header.channels === this.inputHeader.channels &&
+      header.bits === this.inputHeader.bits &&
+      header.reserved === this.inputHeader.reserved &&
+      (!this.decoder || header.frame_samps === this.inputHeader.frame_samps)
+  }
+
+  /**
+   * Start a new utterance: drop decoder and resampler history, keep filter state (e.g. AGC gain)
+   */
+  restart(): void {
+    this.decoder?.reset?.()
+    this.mixer?.restart()
+    this.resampler?.reset()
+  }
+
+  /**
+   * Start a new utterance within a continuing stream ('best_snr' chooses its channel again)
+   */
+  nextUtterance(): void {
+    this.mixer?.restart(false)
+  }
+
+  /**
+   * Channel kept from multi-channel audio (null when all channels are kept, downmixed,
+   * or 'best_snr' has not decided yet)
+   */
+  getSelectedChannel(): number | null {
+    return this.mixer?.getSelectedChannel() ?? null
+  }
+
+  /**
+   * Whether processing changes the audio
+   */
+  isActive(): boolean {
+    return this.decoder !== null || this.mixer !== null || this.resampler !== null || this.filters !== null
+  }
+
+  /**
+   * Process one chunk of device audio
+   * @returns Processed audio (may be empty while filters fill)
+   */
+  process(chunk: Buffer): Buffer {
+    const decoded = this.decoder ? this.decoder.decode(chunk) : chunk
+    const pcm = this.mixer ? this.mixer.process(decoded) : decoded
+    const resampled = this.resampler ? this.resampler.process(pcm) : pcm
+    return this.filters ? this.filters.process(resampled) : resampled
+  }
+
+  /**
+   * Emit buffered audio at the end of an utterance
+   * Resampler state is reset; filter state (e.g. AGC gain) is kept for the next utterance
+   */
+  flush(): Buffer {
+    // Audio held by 'best_snr' still has to pass through the resampler
+    const held = this.mixer ? this.mixer.flush() : Buffer.alloc(0)
+    let tail = held
+    if (this.resampler) {
+      const head = held.length > 0 ? this.resampler.process(held) : Buffer.alloc(0)
+      const rest = this.resampler.flush()
+      tail = head.length > 0 ? Buffer.concat([head, rest]) : rest
+    }
+    return this.filters && tail.length > 0 ? this.filters.process(tail) : tail
+  }
+}
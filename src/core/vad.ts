@@ -0,0 +1,154 @@
+import type { PcmHeader } from '../types/index.js'
+
+/**
+ * Voice activity detection configuration
+ */
+export interface VadConfig {
+  /** Analysis frame length in milliseconds (default: 20) */
+  frameMs?: number
+  /** Minimum frame energy in dBFS to count as speech (default: -45) */
+  energyThresholdDb?: number
+  /** Maximum zero-crossing rate (crossings per sample) to count as speech (default: 0.35) */
+  maxZeroCrossingRate?: number
+  /** Continuous speech required before speech start is reported in ms (default: 120) */
+  minSpeechMs?: number
+  /** Continuous silence required before speech end is reported in ms (default: 700) */
+  hangoverMs?: number
+}
+
+/**
+ * Voice activity event
+ */
+export interface VadEvent {
+  /** Event type */
+  type: 'speech_start' | 'speech_end'
+  /** Position in the analyzed audio stream in milliseconds */
+  timeMs: number
+}
+
+/**
+ * Voice Activity Detector
+ * Frame-based energy and zero-crossing analysis with minimum-speech and hangover windows
+ */
+export class VoiceActivityDetector {
+  private config: Required<VadConfig>
+  private header: PcmHeader
+  private frameSize: number
+  private frame: Float64Array
+  private frameFill = 0
+  private processedSamples = 0
+  private speaking = false
+  private speechRunMs = 0
+  private silenceRunMs = 0
+
+  constructor(header: PcmHeader, config: VadConfig = {}) {
+    this.config = {
+      frameMs: 20,
+      energyThresholdDb: -45,
+      maxZeroCrossingRate: 0.35,
+      minSpeechMs: 120,
+      hangoverMs: 700,
+      ...config
+    }
+    this.header = header
+    this.frameSize = Math.max(1, Math.round(header.sample_rate * this.config.frameMs / 1000))
+    this.frame = new Float64Array(this.frameSize)
+  }
+
+  /**
+   * Whether speech is currently active
+   */
+  isSpeaking(): boolean {
+    return this.speaking
+  }
+
+  /**
+   * Analyze a PCM chunk and return any state transitions it caused
+   * Only 16-bit PCM is analyzed; multi-channel audio is averaged per frame
+   */
+  process(chunk: Buffer): VadEvent[] {
+    const events: VadEvent[] = []
+
+    if (this.header.bits !== 16) {
+      return events
+    }
+
+    const channels = Math.max(1, this.header.channels)
+    const bytesPerFrame = 2 * channels
+    const totalFrames = Math.floor(chunk.length / bytesPerFrame)
+
+    for (let i = 0; i < totalFrames; i++) {
+      let acc = 0
+      for (let ch = 0; ch < channels; ch++) {
+        acc += chunk.readInt16LE((i * channels + ch) * 2)
+      }
+
+      this.frame[this.frameFill++] = acc / channels / 32768
+      this.processedSamples++
+
+      if (this.frameFill === this.frameSize) {
+        const event = this.analyzeFrame()
+        if (event) {
+          events.push(event)
+        }
+        this.frameFill = 0
+      }
+    }
+
+    return events
+  }
+
+  /**
+   * Reset detector state
+   */
+  reset(): void {
+    this.frameFill = 0
+    this.processedSamples = 0
+    this.speaking = false
+    this.speechRunMs = 0
+    this.silenceRunMs = 0
+  }
+
+  /**
+   * Classify the current frame and advance the state machine
+   */
+  private analyzeFrame(): VadEvent | null {
+    let energy = 0
+    let crossings = 0
+
+    for (let i = 0; i < this.frameSize; i++) {
+      const s = this.frame[i]!
+      energy += s * s
+      if (i > 0 && (s >= 0) !== (this.frame[i - 1]! >= 0)) {
+        crossings++
+      }
+    }
+
+    const rms = Math.sqrt(energy / this.frameSize)
+    const energyDb = 20 * Math.log10(rms + 1e-10)
+    const zcr = crossings / this.frameSize
+    const isSpeech = energyDb >= this.config.energyThresholdDb && zcr <= this.config.maxZeroCrossingRate
+
+    const timeMs = this.processedSamples / this.header.sample_rate * 1000
+
+    if (isSpeech) {
+      this.speechRunMs += this.config.frameMs
+      this.silenceRunMs = 0
+    } else {
+      this.silenceRunMs += this.config.frameMs
+      this.speechRunMs = 0
+    }
+
+    if (!this.speaking && this.speechRunMs >= this.config.minSpeechMs) {
+      this.speaking = true
+      return { type: 'speech_start', timeMs }
+    }
+
+    if (this.speaking && this.silenceRunMs >= this.config.hangoverMs) {
+      this.speaking = false
+      return { type: 'speech_end', timeMs }
+    }
+
+    return null
+  }
+}
@@ -1,12 +1,21 @@
 import { WebSocketServer, WebSocket } from 'ws'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { Duplex } from 'stream'
+import { randomBytes } from 'crypto'
 import type { PcmHeader } from '../types/index.js'
+import { silentLogger, type Logger } from './logger.js'
+import { parsePcmHeader } from './pcm.js'
 
 /**
  * WebSocket server configuration
  */
 export interface WebSocketConfig {
-  /** Port to listen on */
-  port: number
+  /** Port to listen on (required unless `server` or `noServer` is set) */
+  port?: number
+  /** Existing HTTP server to share; upgrades on other paths are left to other listeners */
+  server?: Server
+  /** Do not listen or attach; the caller forwards upgrades with handleUpgrade() */
+  noServer?: boolean
   /** Host to bind to (default: '0.0.0.0') */
   host?: string
   /** WebSocket path (default: '/pcm/stream') */
@@ -19,6 +28,12 @@ export interface WebSocketConfig {
   perMessageDeflate?: boolean
   /** Skip UTF-8 validation (default: true for M5Stack compatibility) */
   skipUTF8Validation?: boolean
+  /** Keep a dropped connection resumable for this long in ms (default: 0, disabled) */
+  resumeGraceMs?: number
+  /** Outgoing bytes held for a dropped connection; sends beyond this fail (default: 1MB) */
+  maxHeldBytes?: number
+  /** Logger for connection events (default: silent) */
+  logger?: Logger
 }
 
 /**
@@ -34,14 +49,24 @@ export type MessageType =
  * Event handlers for WebSocket connections
  */
 export interface WebSocketHandlers {
+  /** Called for plain HTTP requests on the server created by start() (default: 426 Upgrade Required) */
+  onHttpRequest?: (req: IncomingMessage, res: ServerResponse) => void
+  /** Called during the HTTP upgrade; resolve false to reject the connection with 401 */
+  verifyUpgrade?: (request: IncomingMessage) => boolean | Promise<boolean>
   /** Called when a new connection is established */
-  onConnection?: (ws: WebSocket, sessionId: string) => void | Promise<void>
+  onConnection?: (ws: WebSocket, sessionId: string, request: IncomingMessage) => void | Promise<void>
   /** Called when a message is received */
   onMessage?: (ws: WebSocket, sessionId: string, message: MessageType) => void | Promise<void>
+  /** Called when a resumable connection drops; onClose follows if it is not resumed in time */
+  onDetach?: (ws: WebSocket, sessionId: string) => void
+  /** Called when a dropped connection is resumed on a new socket */
+  onResume?: (ws: WebSocket, sessionId: string) => void
   /** Called when connection closes */
   onClose?: (ws: WebSocket, sessionId: string) => void | Promise<void>
   /** Called when an error occurs */
   onError?: (ws: WebSocket, sessionId: string, error: Error) => void
+  /** Called when a connection is terminated for missing heartbeat pongs */
+  onHeartbeatTimeout?: (ws: WebSocket, sessionId: string) => void
 }
 
 /**
@@ -49,9 +74,18 @@ export interface WebSocketHandlers {
  */
 interface SessionInfo {
   sessionId: string
+  /** Connection identity passed to handlers (the first socket, kept across resumes) */
   ws: WebSocket
+  /** Socket currently carrying the connection (null while detached) */
+  transport: WebSocket | null
   header: PcmHeader | null
   isAlive: boolean
+  /** Token a reconnecting client presents to resume the connection */
+  resumeToken?: string
+  /** Messages sent while detached, delivered on resume */
+  held: Array<Buffer | string>
+  heldBytes: number
+  detachTimer: NodeJS.Timeout | null
 }
 
 /**
@@ -60,12 +94,17 @@ interface SessionInfo {
  */
 export class VoiceWebSocketServer {
   private wss: WebSocketServer | null = null
+  private httpServer: Server | null = null
+  private upgradeListener: ((req: IncomingMessage, socket: Duplex, head: Buffer) => void) | null = null
   private sessions: Map<WebSocket, SessionInfo> = new Map()
+  private resumeTokens: Map<string, SessionInfo> = new Map()
   private heartbeatTimer: NodeJS.Timeout | null = null
-  private config: Required<WebSocketConfig>
+  private config: Required<Omit<WebSocketConfig, 'port' | 'server' | 'logger'>> & Pick<WebSocketConfig, 'port' | 'server'>
   private handlers: WebSocketHandlers
+  private logger: Logger
 
   constructor(config: WebSocketConfig, handlers: WebSocketHandlers = {}) {
+    const { logger, ...options } = config
     this.config = {
       host: '0.0.0.0',
       path: '/pcm/stream',
@@ -73,9 +112,13 @@ export class VoiceWebSocketServer {
       maxPayload: 10 * 1024 * 1024,
       perMessageDeflate: false,
       skipUTF8Validation: true,
-      ...config
+      noServer: false,
+      resumeGraceMs: 0,
+      maxHeldBytes: 1024 * 1024,
+      ...options
     }
     this.handlers = handlers
+    this.logger = logger ?? silentLogger
   }
 
   /**
@@ -83,20 +126,52 @@ export class VoiceWebSocketServer {
    */
   start(): void {
     if (this.wss) {
-      console.warn('WebSocket server already running')
+      this.logger.warn('WebSocket server already running')
       return
     }
 
+    if (!this.config.server && !this.config.noServer && this.config.port === undefined) {
+      throw new Error('WebSocketConfig.port is required unless server or noServer is set')
+    }
+
+    // Upgrades are routed by path in handleUpgrade so a shared server can host other endpoints
     this.wss = new WebSocketServer({
-      port: this.config.port,
-      host: this.config.host,
-      path: this.config.path,
+      noServer: true,
       perMessageDeflate: this.config.perMessageDeflate,
       maxPayload: this.config.maxPayload,
-      skipUTF8Validation: this.config.skipUTF8Validation
+      skipUTF8Validation: this.config.skipUTF8Validation,
+      verifyClient: this.handlers.verifyUpgrade
+        ? (info, callback) => this.verifyUpgrade(info.req, callback)
+        : undefined
     })
 
-    console.log(`WebSocket server listening on ws://${this.config.host}:${this.config.port}${this.config.path}`)
+    if (this.config.noServer) {
+      this.logger.info('WebSocket server accepting upgrades', { path: this.config.path })
+    } else {
+      const ownsServer = !this.config.server
+      const server = this.config.server ?? createServer((req, res) => this.handleHttpRequest(req, res))
+
+      this.upgradeListener = (req, socket, head) => {
+        if (!this.handleUpgrade(req, socket, head) && ownsServer) {
+          socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n')
+        }
+      }
+      server.on('upgrade', this.upgradeListener)
+      this.httpServer = server
+
+      if (ownsServer) {
+        server.on('error', (error) => {
+          this.logger.error('HTTP server error', { error })
+        })
+        server.listen(this.config.port, this.config.host, () => {
+          this.logger.info('WebSocket server listening', {
+            url: `ws://${this.config.host}:${this.config.port}${this.config.path}`
+          })
+        })
+      } else {
+        this.logger.info('WebSocket server attached to existing HTTP server', { path: this.config.path })
+      }
+    }
 
     // Set up heartbeat to detect dead connections
     this.heartbeatTimer = setInterval(() => {
@@ -104,13 +179,13 @@ export class VoiceWebSocketServer {
     }, this.config.pingInterval)
 
     // Handle new connections
-    this.wss.on('connection', (ws: WebSocket) => {
-      this.handleConnection(ws)
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
+      this.handleConnection(ws, request)
     })
 
     // Handle server errors
     this.wss.on('error', (error) => {
-      console.error('WebSocket server error:', error)
+      this.logger.error('WebSocket server error', { error })
     })
   }
 
@@ -125,11 +200,17 @@ export class VoiceWebSocketServer {
     }
 
     // Close all active connections
-    for (const [ws] of this.sessions) {
+    for (const session of this.sessions.values()) {
+      // Connections closed by shutdown are not resumable
+      this.revokeResumeToken(session)
+      if (!session.transport) {
+        this.closeSession(session)
+        continue
+      }
       try {
-        ws.close()
+        session.transport.close()
       } catch (error) {
-        console.error('Error closing WebSocket:', error)
+        this.logger.error('Error closing WebSocket', { error })
       }
     }
     this.sessions.clear()
@@ -138,31 +219,125 @@ export class VoiceWebSocketServer {
     if (this.wss) {
       await new Promise<void>((resolve) => {
         this.wss!.close(() => {
-          console.log('WebSocket server closed')
+          this.logger.info('WebSocket server closed')
           resolve()
         })
       })
       this.wss = null
     }
+
+    // Detach from the HTTP server, and close it if it was created here
+    if (this.httpServer) {
+      const server = this.httpServer
+      this.httpServer = null
+
+      if (this.upgradeListener) {
+        server.off('upgrade', this.upgradeListener)
+        this.upgradeListener = null
+      }
+
+      if (!this.config.server && server.listening) {
+        await new Promise<void>((resolve) => {
+          server.close(() => resolve())
+        })
+      }
+    }
+  }
+
+  /**
+   * Handle an HTTP upgrade request for the voice endpoint
+   * Use with `noServer: true` to mount the endpoint on an existing HTTP or Express server
+   * @returns False if the request path does not belong to this endpoint
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    if (!this.wss) {
+      return false
+    }
+
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname
+    if (pathname !== this.config.path) {
+      return false
+    }
+
+    const wss = this.wss
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req)
+    })
+    return true
+  }
+
+  /**
+   * Whether the server is started and accepting connections
+   */
+  isListening(): boolean {
+    if (!this.wss) {
+      return false
+    }
+    return this.config.noServer || (this.httpServer?.listening ?? false)
+  }
+
+  /**
+   * Get the HTTP server the endpoint runs on (null with `noServer` or before start)
+   */
+  getHttpServer(): Server | null {
+    return this.httpServer
+  }
+
+  /**
+   * Get the number of open connections (dropped connections awaiting resume are not counted)
+   */
+  getConnectionCount(): number {
+    let count = 0
+    for (const session of this.sessions.values()) {
+      if (session.transport) {
+        count++
+      }
+    }
+    return count
+  }
+
+  /**
+   * Close a connection without leaving it resumable
+   */
+  close(ws: WebSocket, code?: number, reason?: string): void {
+    const session = this.sessions.get(ws)
+    if (!session) {
+      ws.close(code, reason)
+      return
+    }
+
+    this.revokeResumeToken(session)
+    if (session.transport) {
+      session.transport.close(code, reason)
+    } else {
+      this.closeSession(session)
+    }
   }
 
   /**
    * Send data to a specific WebSocket
+   * While a resumable connection is detached, data is held and sent on resume.
    */
   send(ws: WebSocket, data: Buffer | string): boolean {
-    if (ws.readyState !== WebSocket.OPEN) {
+    const session = this.sessions.get(ws)
+    if (session && !session.transport) {
+      return this.hold(session, data)
+    }
+
+    const socket = session?.transport ?? ws
+    if (socket.readyState !== WebSocket.OPEN) {
       return false
     }
 
     try {
       if (typeof data === 'string') {
-        ws.send(data)
+        socket.send(data)
       } else {
-        ws.send(data, { binary: true })
+        socket.send(data, { binary: true })
       }
       return true
     } catch (error) {
-      console.error('Error sending data:', error)
+      this.logger.error('Error sending data', { error })
       return false
     }
   }
@@ -186,96 +361,284 @@ export class VoiceWebSocketServer {
    */
   private heartbeat(): void {
     for (const [ws, session] of this.sessions) {
+      const socket = session.transport
+      if (!socket) {
+        continue
+      }
+
       if (!session.isAlive) {
-        console.log(`Terminating dead connection: ${session.sessionId}`)
+        this.logger.info('Terminating dead connection', { sessionId: session.sessionId })
+        // The close handler detaches or ends the session
         try {
-          ws.terminate()
+          socket.terminate()
         } catch (error) {
-          console.error('Error terminating connection:', error)
+          this.logger.error('Error terminating connection', { sessionId: session.sessionId, error })
         }
-        this.sessions.delete(ws)
+        this.handlers.onHeartbeatTimeout?.(ws, session.sessionId)
         continue
       }
 
       session.isAlive = false
       try {
-        ws.ping()
+        socket.ping()
       } catch (error) {
-        console.error('Error sending ping:', error)
+        this.logger.error('Error sending ping', { sessionId: session.sessionId, error })
       }
     }
   }
 
+  /**
+   * Handle a plain HTTP request on the server created by start()
+   */
+  private handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (this.handlers.onHttpRequest) {
+      this.handlers.onHttpRequest(req, res)
+      return
+    }
+
+    res.writeHead(426, { 'Content-Type': 'text/plain' })
+    res.end('Upgrade Required')
+  }
+
+  /**
+   * Run the upgrade verification handler
+   */
+  private verifyUpgrade(
+    request: IncomingMessage,
+    callback: (result: boolean, code?: number, message?: string) => void
+  ): void {
+    Promise.resolve(this.handlers.verifyUpgrade!(request))
+      .then(accepted => {
+        if (accepted) {
+          callback(true)
+        } else {
+          callback(false, 401, 'Unauthorized')
+        }
+      })
+      .catch(error => {
+        this.logger.error('Error in verifyUpgrade handler', { error })
+        callback(false, 500, 'Internal Server Error')
+      })
+  }
+
   /**
    * Handle new WebSocket connection
    */
-  private handleConnection(ws: WebSocket): void {
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+    const resumeToken = this.config.resumeGraceMs > 0
+      ? new URL(request.url ?? '/', 'http://localhost').searchParams.get('resume')
+      : null
+    if (resumeToken) {
+      const resumed = this.resumeTokens.get(resumeToken)
+      if (resumed) {
+        this.resume(resumed, ws)
+        return
+      }
+    }
+
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(7)}`
 
-    console.log(`WebSocket connection established: ${sessionId}`)
+    this.logger.debug('WebSocket connection established', { sessionId })
 
     // Create session
     const session: SessionInfo = {
       sessionId,
       ws,
+      transport: ws,
       header: null,
-      isAlive: true
+      isAlive: true,
+      held: [],
+      heldBytes: 0,
+      detachTimer: null
     }
     this.sessions.set(ws, session)
-
-    // Set up pong handler
-    ws.on('pong', () => {
-      session.isAlive = true
-    })
+    if (this.config.resumeGraceMs > 0) {
+      this.issueResumeToken(session)
+    }
+    this.attachTransport(session, ws)
 
     // Send connection confirmation
     this.sendJson(ws, {
       type: 'connection_established',
       message: 'WebSocket connection established',
-      sessionId
+      sessionId,
+      resumeToken: session.resumeToken
     })
 
+    if (resumeToken) {
+      this.sendJson(ws, {
+        type: 'error',
+        code: 'resume_failed',
+        message: 'Resume token is invalid or expired; started a new connection'
+      })
+    }
+
     // Call connection handler
     if (this.handlers.onConnection) {
-      Promise.resolve(this.handlers.onConnection(ws, sessionId)).catch(error => {
-        console.error('Error in onConnection handler:', error)
+      Promise.resolve(this.handlers.onConnection(ws, sessionId, request)).catch(error => {
+        this.logger.error('Error in onConnection handler', { sessionId, error })
       })
     }
+  }
+
+  /**
+   * Route a socket's events to a session
+   */
+  private attachTransport(session: SessionInfo, socket: WebSocket): void {
+    const { sessionId } = session
+
+    // Set up pong handler
+    socket.on('pong', () => {
+      session.isAlive = true
+    })
 
     // Set up message handler
-    ws.on('message', (data: Buffer) => {
-      this.handleMessage(ws, session, data)
+    socket.on('message', (data: Buffer, isBinary: boolean) => {
+      this.handleMessage(session.ws, session, data, isBinary)
     })
 
     // Set up error handler
-    ws.on('error', (error) => {
-      console.error(`WebSocket error for ${sessionId}:`, error)
+    socket.on('error', (error) => {
+      this.logger.error('WebSocket error', { sessionId, error })
       if (this.handlers.onError) {
-        this.handlers.onError(ws, sessionId, error)
+        this.handlers.onError(session.ws, sessionId, error)
       }
     })
 
     // Set up close handler
-    ws.on('close', () => {
-      console.log(`WebSocket connection closed: ${sessionId}`)
-      this.sessions.delete(ws)
+    socket.on('close', () => {
+      // A socket replaced by a resume no longer carries the session
+      if (session.transport !== socket) {
+        return
+      }
+      session.transport = null
 
-      if (this.handlers.onClose) {
-        Promise.resolve(this.handlers.onClose(ws, sessionId)).catch(error => {
-          console.error('Error in onClose handler:', error)
-        })
+      if (session.resumeToken) {
+        this.logger.debug('WebSocket connection dropped, awaiting resume', { sessionId })
+        session.detachTimer = setTimeout(() => this.closeSession(session), this.config.resumeGraceMs)
+        this.handlers.onDetach?.(session.ws, sessionId)
+        return
       }
+
+      this.closeSession(session)
     })
   }
 
+  /**
+   * Move a session onto a reconnected socket and deliver held messages
+   */
+  private resume(session: SessionInfo, socket: WebSocket): void {
+    const { sessionId } = session
+    const previous = session.transport
+
+    if (session.detachTimer) {
+      clearTimeout(session.detachTimer)
+      session.detachTimer = null
+    }
+    session.transport = socket
+    session.isAlive = true
+    this.attachTransport(session, socket)
+
+    // A token resumes once; a copy seen on the network cannot take the connection over later
+    this.revokeResumeToken(session)
+    this.issueResumeToken(session)
+
+    // The client may reconnect before the old socket is noticed dead
+    if (previous) {
+      previous.terminate()
+    }
+
+    this.logger.info('WebSocket connection resumed', { sessionId, held: session.held.length })
+    this.sendJson(session.ws, {
+      type: 'session_resumed',
+      sessionId,
+      resumeToken: session.resumeToken,
+      streaming: session.header !== null
+    })
+
+    const held = session.held
+    session.held = []
+    session.heldBytes = 0
+    for (const data of held) {
+      this.send(session.ws, data)
+    }
+
+    this.handlers.onResume?.(session.ws, sessionId)
+  }
+
+  /**
+   * Queue data for a detached session
+   */
+  private hold(session: SessionInfo, data: Buffer | string): boolean {
+    const size = typeof data === 'string' ? Buffer.byteLength(data) : data.length
+    if (session.heldBytes + size > this.config.maxHeldBytes) {
+      return false
+    }
+    session.held.push(data)
+    session.heldBytes += size
+    return true
+  }
+
+  /**
+   * Give a session its resume token (replaced on every resume)
+   */
+  private issueResumeToken(session: SessionInfo): void {
+    session.resumeToken = randomBytes(16).toString('base64url')
+    this.resumeTokens.set(session.resumeToken, session)
+  }
+
+  private revokeResumeToken(session: SessionInfo): void {
+    if (session.resumeToken) {
+      this.resumeTokens.delete(session.resumeToken)
+      session.resumeToken = undefined
+    }
+  }
+
+  /**
+   * End a session for good
+   */
+  private closeSession(session: SessionInfo): void {
+    const { sessionId } = session
+    if (session.detachTimer) {
+      clearTimeout(session.detachTimer)
+      session.detachTimer = null
+    }
+
+    this.logger.debug('WebSocket connection closed', { sessionId })
+    this.sessions.delete(session.ws)
+    this.revokeResumeToken(session)
+    session.held = []
+    session.heldBytes = 0
+
+    if (this.handlers.onClose) {
+      Promise.resolve(this.handlers.onClose(session.ws, sessionId)).catch(error => {
+        this.logger.error('Error in onClose handler', { sessionId, error })
+      })
+    }
+  }
+
   /**
    * Handle incoming message
    */
-  private async handleMessage(ws: WebSocket, session: SessionInfo, data: Buffer): Promise<void> {
+  private async handleMessage(ws: WebSocket, session: SessionInfo, data: Buffer, isBinary: boolean): Promise<void> {
     try {
+      // Check for END signal (sent as either a text or a binary frame)
+      if (data.length === 4 && data.toString('utf8') === 'END\0') {
+        const messageType: MessageType = { type: 'end' }
+
+        // Reset session header for next stream before the handler runs: it may not return
+        // until the response has played, and a header sent meanwhile starts the next stream
+        session.header = null
+
+        if (this.handlers.onMessage) {
+          await this.handlers.onMessage(ws, session.sessionId, messageType)
+        }
+        return
+      }
+
       // Check if it's a text message (command)
-      if (!Buffer.isBuffer(data)) {
-        const message = String(data)
+      if (!isBinary) {
+        const message = data.toString('utf8')
         const messageType: MessageType = { type: 'text', message }
 
         if (this.handlers.onMessage) {
@@ -285,21 +648,21 @@ export class VoiceWebSocketServer {
       }
 
       // Check for PCM header (first 16 bytes)
-      if (!session.header && data.length >= 16) {
-        const magic = data.slice(0, 4).toString('utf8')
-
-        if (magic === 'PCM1') {
-          // Parse PCM header
-          const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
-          const header: PcmHeader = {
-            magic,
-            sample_rate: view.getUint32(4, true),
-            channels: view.getUint8(8),
-            bits: view.getUint8(9),
-            frame_samps: view.getUint16(10, true),
-            reserved: view.getUint16(12, true)
-          }
+      if (!session.header && data.length >= 16 && data.toString('ascii', 0, 4) === 'PCM1') {
+        const header = parsePcmHeader(data.buffer.slice(data.byteOffset, data.byteOffset + 16))
+
+        if (header && !header.codec) {
+          // Audio in an unknown codec cannot be decoded; drop it until a valid header arrives
+          this.logger.warn('Unknown codec in PCM header', { sessionId: session.sessionId, codecId: header.reserved })
+          this.sendJson(ws, {
+            type: 'error',
+            code: 'unsupported_codec',
+            message: `Unknown codec id ${header.reserved}`
+          })
+          return
+        }
 
+        if (header) {
           session.header = header
           const messageType: MessageType = { type: 'header', data, header }
 
@@ -310,19 +673,6 @@ export class VoiceWebSocketServer {
         }
       }
 
-      // Check for END signal
-      if (data.length === 4 && data.toString('utf8') === 'END\0') {
-        const messageType: MessageType = { type: 'end' }
-
-        if (this.handlers.onMessage) {
-          await this.handlers.onMessage(ws, session.sessionId, messageType)
-        }
-
-        // Reset session header for next stream
-        session.header = null
-        return
-      }
-
       // Handle audio data
       if (session.header) {
         const messageType: MessageType = { type: 'audio', data }
@@ -331,12 +681,13 @@ export class VoiceWebSocketServer {
           await this.handlers.onMessage(ws, session.sessionId, messageType)
         }
       } else {
-        console.warn(`Received data before PCM header for ${session.sessionId}`)
+        this.logger.warn('Received data before PCM header', { sessionId: session.sessionId })
       }
     } catch (error) {
-      console.error('Error processing message:', error)
+      this.logger.error('Error processing message', { sessionId: session.sessionId, error })
       this.sendJson(ws, {
         type: 'error',
+        code: 'message_failed',
         message: 'Failed to process message'
       })
     }
@@ -13,10 +13,43 @@ export * from './plugins/index.js'
 export { WebSocket } from 'ws'
 
 import type { WebSocket } from 'ws'
+import type { IncomingMessage } from 'http'
+import type { Duplex } from 'stream'
 import { VoiceWebSocketServer, type WebSocketConfig, type MessageType } from './core/websocket.js'
-import { SessionManager, type SessionConfig } from './core/session.js'
-import type { PipelineConfig, ConversationContext } from './plugins/index.js'
-import type { StreamingSession, PcmHeader } from './types/index.js'
+import { SessionManager, type SessionConfig, type SessionEndReason } from './core/session.js'
+import {
+  streamDownlinkAudio,
+  convertToDownlinkPcm,
+  type DownlinkConfig
+} from './core/downlink.js'
+import { UplinkProcessor, type UplinkConfig } from './core/uplink.js'
+import { createDefaultDecoders, type AudioContainerFormat, type DecoderRegistry } from './core/decoder.js'
+import { PlaybackQueue, type PlaybackTask, type PlaybackOptions } from './core/playback-queue.js'
+import { createAdminHandler, type AdminConfig, type AdminHandler } from './core/http.js'
+import { VoiceMetrics, type MetricsRegistry } from './core/metrics.js'
+import { resolveLogger, withFields, type Logger, type LogFields } from './core/logger.js'
+import { extractUpgradeToken, type AuthConfig, type AuthResult } from './core/auth.js'
+import { getConversationKey, trimHistory, type HistoryConfig } from './core/conversation-store.js'
+import type { SessionRecorder, RecordingInput } from './core/recorder.js'
+import { PipelineScheduler, type SchedulerConfig, type TurnSlot } from './core/scheduler.js'
+import { CannedResponseCache, type CannedResponsesConfig, type FailureClass } from './core/canned-responses.js'
+import {
+  PROTOCOL_VERSION,
+  BUILTIN_COMMAND_SCHEMAS,
+  parseControlMessage,
+  validateCommand,
+  type ControlMessage,
+  type CommandHandler,
+  type CommandOptions,
+  type CommandContext,
+  type HelloMessage,
+  type SetConversationMessage,
+  type ConfigMessage,
+  type PingMessage
+} from './core/protocol.js'
+import { DeviceRegistry, type DeviceRegistryConfig, type DeviceRecord } from './core/device-registry.js'
+import type { PipelineConfig, ConversationContext, TranscriptionStream, WakeWordDetector } from './plugins/index.js'
+import type { StreamingSession, PcmHeader, PipelineStage, PluginAttempt } from './types/index.js'
 
 /**
  * Voice Server configuration
@@ -28,6 +61,80 @@ export interface VoiceServerConfig {
   session?: SessionConfig
   /** Voice processing pipeline configuration */
   pipeline?: PipelineConfig
+  /**
+   * Downlink audio framing; when set (or when the synthesis plugin streams),
+   * responses are sent as a PCM1 header, real-time paced frames and an END marker
+   */
+  downlink?: DownlinkConfig
+  /**
+   * Token authentication; without it, `AUTH:<userId>` is accepted as-is
+   */
+  auth?: AuthConfig
+  /**
+   * Conversation history; loaded into `context.history` before generation
+   * and appended after each turn
+   */
+  history?: HistoryConfig
+  /** Device registry configuration */
+  devices?: DeviceRegistryConfig
+  /**
+   * Health and admin endpoints (/healthz, /readyz, /sessions) served on the
+   * HTTP server created by the WebSocket server; false disables them
+   */
+  admin?: AdminConfig | false
+  /** Uplink audio processing (resampling to the transcription rate, filters) */
+  uplink?: UplinkConfig
+  /**
+   * Audio played when a turn fails (no speech, stage failures, session limits);
+   * rendered once at start() through the synthesis plugin or decoders
+   */
+  cannedResponses?: CannedResponsesConfig
+  /**
+   * Pipeline concurrency: global and per-stage caps, queue size and overflow policy
+   * (default: unlimited)
+   */
+  scheduler?: SchedulerConfig
+  /** Record finished turns (audio, transcription, response) for debugging and replay */
+  recorder?: SessionRecorder
+  /** Registry for pipeline metrics (default: a registry owned by the server) */
+  metrics?: MetricsRegistry
+  /**
+   * Logger shared by the server, sessions and WebSocket layer (default: silent,
+   * or console at debug level when `pipeline.verbose` is set)
+   */
+  logger?: Logger
+}
+
+/**
+ * Target devices for server-initiated speech
+ * - device ID or list of device IDs
+ * - `{ group }`: all connected devices in a registry group
+ * - `{ all: true }`: all connected devices
+ */
+export type SpeakTarget = string | string[] | { group: string } | { all: true }
+
+/**
+ * Options for server-initiated speech
+ */
+export interface SpeakOptions {
+  /** Queue priority; higher plays before queued lower-priority audio (default: 0, same as responses) */
+  priority?: number
+  /** Interrupt lower-priority audio that is currently playing (default: false) */
+  interrupt?: boolean
+  /** Container format of a pre-rendered audio buffer (detected when omitted) */
+  format?: AudioContainerFormat
+  /** Sample rate of a raw 'pcm' audio buffer */
+  sampleRate?: number
+}
+
+/**
+ * Delivery result of server-initiated speech
+ */
+export interface SpeakResult {
+  /** Devices that played the audio completely */
+  delivered: string[]
+  /** Devices that were not connected, were interrupted or failed */
+  failed: string[]
 }
 
 /**
@@ -42,27 +149,111 @@ export class VoiceServer {
 
   // Track WebSocket to sessionId mapping
   private wsToSessionId: WeakMap<WebSocket, string> = new WeakMap()
+  private sessionIdToWs: Map<string, WebSocket> = new Map()
+
+  // Open streaming transcriptions by sessionId
+  private transcriptionStreams: Map<string, TranscriptionStream> = new Map()
+
+  // Wake word detectors by connection, fed until a keyword opens the session
+  private wakeDetectors: Map<WebSocket, WakeWordDetector> = new Map()
+
+  // In-flight responses by connection, aborted on barge-in
+  private activeResponses: Map<WebSocket, AbortController> = new Map()
+
+  // Authentication state by connection, and upgrade results awaiting their connection
+  private authResults: WeakMap<WebSocket, AuthResult> = new WeakMap()
+  private upgradeAuth: WeakMap<IncomingMessage, AuthResult> = new WeakMap()
+
+  // JSON control commands, and per-connection state they maintain
+  private commands: Map<string, { handler: CommandHandler; options: CommandOptions }> = new Map()
+  private clientInfo: WeakMap<WebSocket, Omit<HelloMessage, 'type' | 'v' | 'id'>> = new WeakMap()
+  private clientConfigs: WeakMap<WebSocket, Record<string, unknown>> = new WeakMap()
+
+  // Devices identified through hello/auth, and remote addresses of connections
+  private devices: DeviceRegistry
+  private remoteAddresses: WeakMap<WebSocket, string> = new WeakMap()
+
+  // Uplink audio processing by connection
+  private uplinkProcessors: WeakMap<WebSocket, UplinkProcessor> = new WeakMap()
+
+  // Admission and concurrency control for pipeline turns
+  private scheduler: PipelineScheduler
+
+  // Canned failure audio, and sessions already told about an exceeded limit
+  private cannedResponses: CannedResponseCache | null = null
+  private cannedReady: Promise<number> | null = null
+  private limitAnnounced: WeakSet<StreamingSession> = new WeakSet()
+
+  // Downlink playback queues by connection
+  private playbackQueues: WeakMap<WebSocket, PlaybackQueue> = new WeakMap()
+
+  private adminHandler: AdminHandler
+  private metrics: VoiceMetrics
+  private logger: Logger
+  private decoders: DecoderRegistry
 
   constructor(config: VoiceServerConfig) {
     this.config = config
     this.pipeline = config.pipeline
+    this.logger = resolveLogger(config.logger, config.pipeline?.verbose)
+    this.decoders = config.downlink?.decoders ?? createDefaultDecoders({
+      ffmpegPath: config.downlink?.conversion?.ffmpegPath,
+      timeoutMs: config.downlink?.conversion?.timeoutMs,
+      logger: this.logger
+    })
+    this.devices = new DeviceRegistry(config.devices)
+    this.metrics = new VoiceMetrics(config.metrics)
+    this.scheduler = new PipelineScheduler({ logger: this.logger, ...config.scheduler })
+    this.adminHandler = createAdminHandler({
+      isReady: () => this.wsServer.isListening(),
+      getSessionsView: () => this.getSessionsView(),
+      getMetrics: () => this.metrics.registry.render()
+    }, config.admin || {})
 
     // Create session manager
-    this.sessionManager = new SessionManager(config.session || {}, {
-      onCreate: (session) => this.onSessionCreate(session),
-      onEnd: (session) => this.onSessionEnd(session),
-      onLimitExceeded: (session, reason) => {
-        console.warn(`Session ${session.sessionId} limit exceeded: ${reason}`)
-      }
+    this.sessionManager = new SessionManager({ logger: this.logger, ...config.session }, {
+      onLimitExceeded: (_session, reason) => {
+        this.metrics.limitExceeded.inc({ reason })
+      },
+      onEnd: (session, reason) => {
+        if (reason !== 'ended') {
+          this.onSessionTimeout(session, reason).catch(error => {
+            this.logger.error('Error handling session timeout', { sessionId: session.sessionId, reason, error })
+          })
+        }
+      },
+      onSpeechStart: (session, event) => this.onSpeechStart(session, event.timeMs),
+      onSpeechEnd: (session, event) => this.onSpeechEnd(session, event.timeMs)
     })
 
     // Create WebSocket server with handlers
-    this.wsServer = new VoiceWebSocketServer(config.websocket, {
-      onConnection: (ws, sessionId) => this.onConnection(ws, sessionId),
+    this.wsServer = new VoiceWebSocketServer({ logger: this.logger, ...config.websocket }, {
+      onHttpRequest: config.admin === false ? undefined : (req, res) => this.adminHandler(req, res),
+      verifyUpgrade: config.auth ? (request) => this.verifyUpgrade(request) : undefined,
+      onConnection: (ws, sessionId, request) => this.onConnection(ws, sessionId, request),
       onMessage: (ws, sessionId, message) => this.onMessage(ws, sessionId, message),
+      onDetach: (ws, sessionId) => {
+        // No audio can arrive while detached; the session must outlive the grace window
+        const current = this.wsToSessionId.get(ws) ?? sessionId
+        this.sessionManager.pauseSession(current)
+        this.logger.info('Connection dropped, awaiting resume', this.logFields(ws, current))
+      },
+      onResume: (ws, sessionId) => {
+        const current = this.wsToSessionId.get(ws) ?? sessionId
+        this.sessionManager.resumeSession(current)
+        this.logger.info('Connection resumed', this.logFields(ws, current))
+      },
       onClose: (ws, sessionId) => this.onClose(ws, sessionId),
-      onError: (ws, sessionId, error) => this.onError(ws, sessionId, error)
+      onError: (ws, sessionId, error) => this.onError(ws, sessionId, error),
+      onHeartbeatTimeout: () => this.metrics.heartbeatTerminations.inc()
     })
+
+    this.metrics.connections.setCollector(() => this.wsServer.getConnectionCount())
+    this.metrics.sessions.setCollector(() => this.sessionManager.getSessionCount())
+    this.metrics.queueDepth.setCollector(() => this.scheduler.getQueueDepth())
+    this.metrics.turnsActive.setCollector(() => this.scheduler.getActiveCount())
+
+    this.registerBuiltinCommands()
   }
 
   /**
@@ -70,7 +261,29 @@ export class VoiceServer {
    */
   start(): void {
     this.wsServer.start()
-    console.log('Voice server started')
+    void this.prepareCannedResponses()
+    this.logger.info('Voice server started')
+  }
+
+  /**
+   * Render the configured canned responses (called by start())
+   * @returns Number of responses ready
+   */
+  prepareCannedResponses(): Promise<number> {
+    if (!this.config.cannedResponses) {
+      return Promise.resolve(0)
+    }
+
+    if (!this.cannedReady) {
+      const cache = new CannedResponseCache(this.config.cannedResponses, this.logger)
+      const sampleRate = this.config.downlink?.sampleRate ?? 16000
+      this.cannedReady = cache.prepare((input, source) => this.renderSpeech(input, sampleRate, source), sampleRate)
+        .then((count) => {
+          this.cannedResponses = cache
+          return count
+        })
+    }
+    return this.cannedReady
   }
 
   /**
@@ -79,7 +292,7 @@ export class VoiceServer {
   async stop(): Promise<void> {
     await this.wsServer.stop()
     await this.sessionManager.clearAll()
-    console.log('Voice server stopped')
+    this.logger.info('Voice server stopped')
   }
 
   /**
@@ -89,24 +302,326 @@ export class VoiceServer {
     return this.sessionManager
   }
 
+  /**
+   * Get the pipeline scheduler (queue depth, active turns, stage usage)
+   */
+  getScheduler(): PipelineScheduler {
+    return this.scheduler
+  }
+
+  /**
+   * Get pipeline metrics
+   * Use `getMetrics().registry.render()` for Prometheus text or `.snapshot()` for values
+   */
+  getMetrics(): VoiceMetrics {
+    return this.metrics
+  }
+
+  /**
+   * Get the health/admin request handler
+   * Mount it on your own HTTP or Express server, e.g. `app.use(server.getAdminHandler())`
+   */
+  getAdminHandler(): AdminHandler {
+    return this.adminHandler
+  }
+
+  /**
+   * Forward an HTTP upgrade to the voice endpoint
+   * Use with `websocket.noServer: true` to mount on an existing server
+   * @returns False if the request path does not belong to the voice endpoint
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    return this.wsServer.handleUpgrade(req, socket, head)
+  }
+
+  /**
+   * Build the JSON view served at /sessions
+   */
+  private getSessionsView(): Record<string, unknown> {
+    const sessions = this.sessionManager.getActiveSessions().map((sessionId) => {
+      const session = this.sessionManager.getSession(sessionId)
+      return {
+        sessionId,
+        userId: session?.userId,
+        conversationId: session?.conversationId,
+        format: session?.header
+          ? {
+            sampleRate: session.header.sample_rate,
+            channels: session.header.channels,
+            bits: session.header.bits
+          }
+          : null,
+        ...this.sessionManager.getStats(sessionId)
+      }
+    })
+
+    return {
+      connections: this.wsServer.getConnectionCount(),
+      sessionCount: sessions.length,
+      pipeline: {
+        active: this.scheduler.getActiveCount(),
+        queued: this.scheduler.getQueueDepth(),
+        stages: this.scheduler.getStageStats()
+      },
+      sessions
+    }
+  }
+
+  /**
+   * Register a handler for a JSON control command
+   * Registering a built-in command type replaces the built-in handler
+   * @param type Command type
+   * @param handler Command handler
+   * @param options Schema and authentication options
+   */
+  registerCommand<T extends ControlMessage = ControlMessage>(
+    type: string,
+    handler: CommandHandler<T>,
+    options: CommandOptions = {}
+  ): void {
+    // Schema validation stands in for the narrowing the handler's message type expects
+    this.commands.set(type, { handler: handler as CommandHandler, options })
+  }
+
+  /**
+   * Get device registry
+   */
+  getDeviceRegistry(): DeviceRegistry {
+    return this.devices
+  }
+
+  /**
+   * List known devices
+   * @param connectedOnly Only include connected devices
+   */
+  getDevices(connectedOnly: boolean = false): DeviceRecord[] {
+    return this.devices.list(connectedOnly)
+  }
+
+  /**
+   * Look up a device by ID
+   */
+  getDevice(deviceId: string): DeviceRecord | undefined {
+    return this.devices.get(deviceId)
+  }
+
+  /**
+   * Send a message to a connected device
+   * Objects are sent as JSON text frames, buffers as binary frames
+   * @returns False if the device is not connected or the send failed
+   */
+  sendToDevice(deviceId: string, message: Record<string, unknown> | Buffer | string): boolean {
+    const ws = this.devices.getConnection(deviceId)
+    if (!ws) {
+      return false
+    }
+
+    if (Buffer.isBuffer(message) || typeof message === 'string') {
+      return this.wsServer.send(ws, message)
+    }
+    return this.wsServer.sendJson(ws, message)
+  }
+
+  /**
+   * Speak to one or more devices without a prior utterance
+   * Text is synthesized with the pipeline's synthesis plugin; audio buffers are converted
+   * to the downlink format. Playback queues behind audio already playing on each device.
+   * @param target Device ID(s), group or all devices
+   * @param input Text to synthesize or pre-rendered audio
+   * @param options Priority, interruption and audio format
+   * @returns Devices the audio was and was not delivered to
+   */
+  async speak(target: SpeakTarget, input: string | Buffer, options: SpeakOptions = {}): Promise<SpeakResult> {
+    const deviceIds = this.resolveSpeakTarget(target)
+    const result: SpeakResult = { delivered: [], failed: [] }
+    if (deviceIds.length === 0) {
+      return result
+    }
+
+    const sampleRate = this.config.downlink?.sampleRate ?? 16000
+    const pcm = await this.renderSpeech(input, sampleRate, options)
+    if (!pcm) {
+      result.failed.push(...deviceIds)
+      return result
+    }
+
+    await Promise.all(deviceIds.map(async (deviceId) => {
+      const ws = this.devices.getConnection(deviceId)
+      const delivered = ws
+        ? await this.enqueuePlayback(ws, (signal) => {
+          this.wsServer.sendJson(ws, {
+            type: 'announcement',
+            ...(typeof input === 'string' ? { text: input } : {}),
+            priority: options.priority ?? 0
+          })
+          return streamDownlinkAudio(
+            pcm,
+            (data) => this.wsServer.send(ws, data),
+            { format: 'pcm', sampleRate },
+            this.downlinkConfig(),
+            { signal }
+          )
+        }, { priority: options.priority, interrupt: options.interrupt })
+        : false
+
+      if (delivered) {
+        result.delivered.push(deviceId)
+      } else {
+        result.failed.push(deviceId)
+      }
+    }))
+
+    return result
+  }
+
+  /**
+   * Resolve a speak target to device IDs
+   */
+  private resolveSpeakTarget(target: SpeakTarget): string[] {
+    if (typeof target === 'string') {
+      return [target]
+    }
+    if (Array.isArray(target)) {
+      return target
+    }
+    if ('group' in target) {
+      return this.devices.listGroup(target.group, true).map(device => device.deviceId)
+    }
+    return this.devices.list(true).map(device => device.deviceId)
+  }
+
+  /**
+   * Render text or audio to downlink PCM
+   */
+  private async renderSpeech(input: string | Buffer, sampleRate: number, options: SpeakOptions): Promise<Buffer | null> {
+    if (Buffer.isBuffer(input)) {
+      return convertToDownlinkPcm(
+        input,
+        sampleRate,
+        { format: options.format, sampleRate: options.sampleRate },
+        this.config.downlink?.conversion,
+        this.decoders
+      )
+    }
+
+    const synthesis = this.pipeline?.synthesis
+    if (!synthesis) {
+      throw new Error('speak() with text requires a synthesis plugin')
+    }
+
+    let audio: Buffer | null
+    if (synthesis.synthesizeStream) {
+      const chunks: Buffer[] = []
+      for await (const chunk of synthesis.synthesizeStream(input)) {
+        chunks.push(chunk)
+      }
+      audio = Buffer.concat(chunks)
+    } else {
+      audio = await synthesis.synthesize(input)
+    }
+
+    if (!audio || audio.length === 0) {
+      this.logger.warn('Speech synthesis failed for announcement', { stage: 'synthesis' })
+      return null
+    }
+
+    return convertToDownlinkPcm(
+      audio,
+      sampleRate,
+      { format: synthesis.outputFormat, sampleRate: synthesis.outputSampleRate },
+      this.config.downlink?.conversion,
+      this.decoders
+    )
+  }
+
+  /**
+   * Downlink settings with the server's decoders
+   */
+  private downlinkConfig(): DownlinkConfig {
+    return { ...this.config.downlink, decoders: this.decoders }
+  }
+
+  /**
+   * Queue downlink audio on a connection
+   */
+  private enqueuePlayback(ws: WebSocket, task: PlaybackTask, options: PlaybackOptions = {}): Promise<boolean> {
+    let queue = this.playbackQueues.get(ws)
+    if (!queue) {
+      queue = new PlaybackQueue(this.logger)
+      this.playbackQueues.set(ws, queue)
+    }
+    return queue.enqueue(task, options)
+  }
+
+  /**
+   * Play the canned response for a failure, if one is ready
+   * @returns True if the audio was played completely
+   */
+  private async playCannedResponse(ws: WebSocket, failure: FailureClass, signal?: AbortSignal): Promise<boolean> {
+    const audio = this.cannedResponses?.get(failure)
+    if (!audio || signal?.aborted) {
+      return false
+    }
+
+    const send = (data: Buffer) => this.wsServer.send(ws, data)
+    return this.enqueuePlayback(ws, (playSignal) => this.config.downlink
+      ? streamDownlinkAudio(audio, send, { format: 'pcm1' }, this.downlinkConfig(), { signal: playSignal })
+      : Promise.resolve(send(audio)), { signal })
+  }
+
+  /**
+   * Play the limit_exceeded response once per session
+   */
+  private announceLimit(ws: WebSocket, sessionId: string): void {
+    const session = this.sessionManager.getSession(sessionId)
+    if (!session || this.limitAnnounced.has(session)) {
+      return
+    }
+
+    this.limitAnnounced.add(session)
+    void this.playCannedResponse(ws, 'limit_exceeded')
+  }
+
   /**
    * Handle new WebSocket connection
    */
-  private async onConnection(ws: WebSocket, sessionId: string): Promise<void> {
+  private async onConnection(ws: WebSocket, sessionId: string, request: IncomingMessage): Promise<void> {
     this.wsToSessionId.set(ws, sessionId)
+    this.sessionIdToWs.set(sessionId, ws)
+    if (request.socket.remoteAddress) {
+      this.remoteAddresses.set(ws, request.socket.remoteAddress)
+    }
 
     // Create session
     this.sessionManager.createSession(sessionId)
 
-    if (this.config.pipeline?.verbose) {
-      console.log(`Session created for connection: ${sessionId}`)
+    // Apply credentials validated during the upgrade
+    const authResult = this.upgradeAuth.get(request)
+    if (authResult) {
+      this.upgradeAuth.delete(request)
+      this.applyAuth(ws, sessionId, authResult)
     }
   }
 
   /**
    * Handle WebSocket message
    */
-  private async onMessage(ws: WebSocket, sessionId: string, message: MessageType): Promise<void> {
+  private async onMessage(ws: WebSocket, connectionSessionId: string, message: MessageType): Promise<void> {
+    // The active session changes after every END signal
+    const sessionId = this.wsToSessionId.get(ws) ?? connectionSessionId
+    this.devices.touch(ws)
+
+    if (message.type !== 'text' && this.config.auth?.requireAuth && !this.authResults.has(ws)) {
+      if (message.type === 'header') {
+        this.wsServer.sendJson(ws, {
+          type: 'error',
+          code: 'auth_required',
+          message: 'Authentication required before streaming audio'
+        })
+      }
+      return
+    }
+
     if (message.type === 'header') {
       await this.handleHeader(ws, sessionId, message.data, message.header)
     } else if (message.type === 'audio') {
@@ -121,25 +636,77 @@ export class VoiceServer {
   /**
    * Handle WebSocket close
    */
-  private async onClose(_ws: WebSocket, sessionId: string): Promise<void> {
-    await this.sessionManager.endSession(sessionId)
+  private async onClose(ws: WebSocket, sessionId: string): Promise<void> {
+    const currentSessionId = this.wsToSessionId.get(ws) ?? sessionId
+    this.sessionIdToWs.delete(currentSessionId)
+    this.activeResponses.get(ws)?.abort()
+    this.activeResponses.delete(ws)
+    this.playbackQueues.get(ws)?.clear()
+    this.wakeDetectors.delete(ws)
+    this.devices.detach(ws)
+    this.abortTranscriptionStream(currentSessionId)
+    await this.sessionManager.endSession(currentSessionId)
   }
 
   /**
    * Handle WebSocket error
    */
-  private onError(_ws: WebSocket, sessionId: string, error: Error): void {
-    console.error(`WebSocket error for ${sessionId}:`, error)
+  private onError(_ws: WebSocket, _sessionId: string, _error: Error): void {
+    // Logged by the WebSocket layer; the close handler cleans up
   }
 
   /**
    * Handle PCM header
    */
   private async handleHeader(ws: WebSocket, sessionId: string, _data: Buffer, header: PcmHeader): Promise<void> {
-    this.sessionManager.setHeader(sessionId, header)
+    // A new utterance interrupts any response still being generated or played
+    this.cancelResponse(ws, 'barge_in')
 
-    if (this.config.pipeline?.verbose) {
-      console.log(`PCM header received for ${sessionId}:`, header)
+    this.logger.debug('PCM header received', { ...this.logFields(ws, sessionId), header })
+
+    // Buffer audio in the format transcription expects; filter state survives
+    // across utterances while the device format stays the same
+    let uplink = this.uplinkProcessors.get(ws)
+    if (uplink?.matches(header, this.devices.findByConnection(ws)?.deviceId)) {
+      uplink.restart()
+    } else {
+      try {
+        uplink = this.createUplink(ws, header)
+      } catch (error) {
+        // Drop the stream until the device sends a header we can decode
+        this.logger.warn('Unsupported uplink codec', { ...this.logFields(ws, sessionId), codec: header.codec, error })
+        this.uplinkProcessors.delete(ws)
+        const info = this.wsServer.getSession(ws)
+        if (info) {
+          info.header = null
+        }
+        this.wsServer.sendJson(ws, {
+          type: 'error',
+          code: 'unsupported_codec',
+          message: `No decoder for codec: ${header.codec}`
+        })
+        return
+      }
+      if (uplink.isActive()) {
+        this.uplinkProcessors.set(ws, uplink)
+      } else {
+        this.uplinkProcessors.delete(ws)
+      }
+    }
+
+    this.sessionManager.setHeader(sessionId, uplink.header)
+    this.wakeDetectors.delete(ws)
+    this.beginStream(ws, sessionId, uplink.header)
+
+    const device = this.devices.findByConnection(ws)
+    if (device) {
+      this.devices.update(device.deviceId, {
+        audioFormat: {
+          sampleRate: header.sample_rate,
+          channels: header.channels,
+          bitsPerSample: header.bits
+        }
+      })
     }
 
     // Send acknowledgment
@@ -149,22 +716,228 @@ export class VoiceServer {
       format: {
         sampleRate: header.sample_rate,
         channels: header.channels,
-        bits: header.bits
+        bits: header.bits,
+        codec: header.codec ?? 'pcm'
       }
     })
   }
 
+  /**
+   * Build the uplink processor for a device header
+   * Per-device filters and channel policy are resolved for the connection's current device.
+   * @throws Error if the header declares a codec without a decoder
+   */
+  private createUplink(ws: WebSocket, header: PcmHeader): UplinkProcessor {
+    return new UplinkProcessor(header, {
+      ...this.config.uplink,
+      sampleRate: this.config.uplink?.sampleRate ?? this.pipeline?.transcription.inputSampleRate
+    }, this.devices.findByConnection(ws)?.deviceId)
+  }
+
+  /**
+   * Re-resolve per-device uplink settings after a device ID is bound mid-stream
+   * A processor whose output format would change is replaced at the next header instead,
+   * so audio already buffered keeps one format.
+   */
+  private refreshUplink(ws: WebSocket, sessionId: string): void {
+    const header = this.wsServer.getSession(ws)?.header
+    const current = this.uplinkProcessors.get(ws)
+    if (!header || current?.deviceId === this.devices.findByConnection(ws)?.deviceId) {
+      return
+    }
+
+    let uplink: UplinkProcessor
+    try {
+      uplink = this.createUplink(ws, header)
+    } catch {
+      return
+    }
+
+    const format = current?.header ?? header
+    if (uplink.header.sample_rate !== format.sample_rate ||
+      uplink.header.channels !== format.channels ||
+      uplink.header.bits !== format.bits) {
+      this.logger.debug('Device uplink settings apply from the next header', this.logFields(ws, sessionId))
+      return
+    }
+
+    if (uplink.isActive()) {
+      this.uplinkProcessors.set(ws, uplink)
+    } else {
+      this.uplinkProcessors.delete(ws)
+    }
+  }
+
   /**
    * Handle audio chunk
    */
   private async handleAudio(ws: WebSocket, sessionId: string, data: Buffer): Promise<void> {
+    this.metrics.bytesReceived.inc({}, data.length)
+    this.metrics.chunksReceived.inc()
+
+    const uplink = this.uplinkProcessors.get(ws)
+    await this.bufferAudio(ws, sessionId, uplink ? uplink.process(data) : data)
+  }
+
+  /**
+   * Add processed audio to the session and the open transcription stream
+   */
+  private async bufferAudio(ws: WebSocket, sessionId: string, data: Buffer): Promise<void> {
+    if (data.length === 0) {
+      return
+    }
+
+    // Until the wake word is heard, audio only reaches the detector and the pre-roll
+    const gated = this.wakeDetectors.has(ws) && !this.sessionManager.isCapturing(sessionId)
     const success = this.sessionManager.addChunk(sessionId, data)
 
     if (!success) {
       this.wsServer.sendJson(ws, {
         type: 'error',
+        code: 'limit_exceeded',
         message: 'Failed to add audio chunk (session limit exceeded)'
       })
+      this.announceLimit(ws, sessionId)
+      return
+    }
+
+    if (gated) {
+      await this.detectWakeWord(ws, sessionId, data)
+      return
+    }
+
+    await this.writeTranscriptionStream(ws, sessionId, data)
+  }
+
+  /**
+   * Start a stream's transcription, or hold it behind the wake word gate
+   */
+  private beginStream(ws: WebSocket, sessionId: string, header: PcmHeader): void {
+    const wakeWord = this.pipeline?.wakeWord
+    if (!wakeWord) {
+      this.openTranscriptionStream(ws, sessionId, header)
+      return
+    }
+
+    const detector = this.wakeDetectors.get(ws) ?? wakeWord.createDetector(header)
+    detector.reset?.()
+    this.wakeDetectors.set(ws, detector)
+    this.sessionManager.holdCapture(sessionId)
+  }
+
+  /**
+   * Feed gated audio to the wake word detector and open the session on a detection
+   */
+  private async detectWakeWord(ws: WebSocket, sessionId: string, data: Buffer): Promise<void> {
+    const detector = this.wakeDetectors.get(ws)
+    if (!detector) {
+      return
+    }
+
+    let detection
+    try {
+      detection = detector.process(data)
+    } catch (error) {
+      this.logger.error('Wake word detection failed', { ...this.logFields(ws, sessionId), error })
+      return
+    }
+    if (!detection || !this.sessionManager.startCapture(sessionId)) {
+      return
+    }
+    detector.reset?.()
+
+    this.logger.info('Wake word detected', { ...this.logFields(ws, sessionId), ...detection })
+
+    // The device is addressing the server again
+    this.cancelResponse(ws, 'barge_in')
+    this.wsServer.sendJson(ws, {
+      type: 'wake_detected',
+      sessionId,
+      keyword: detection.keyword,
+      confidence: detection.confidence
+    })
+
+    // Transcription starts with the pre-roll captured before the detection
+    const header = this.sessionManager.getSession(sessionId)?.header
+    if (header) {
+      this.openTranscriptionStream(ws, sessionId, header)
+      const captured = this.sessionManager.getAudioData(sessionId)
+      if (captured) {
+        await this.writeTranscriptionStream(ws, sessionId, captured)
+      }
+    }
+  }
+
+  /**
+   * Feed audio to the session's streaming transcription, if one is open
+   */
+  private async writeTranscriptionStream(ws: WebSocket, sessionId: string, data: Buffer): Promise<void> {
+    const stream = this.transcriptionStreams.get(sessionId)
+    if (stream) {
+      try {
+        await stream.write(data)
+      } catch (error) {
+        // Fall back to batch transcription for the rest of this utterance
+        this.logger.error('Streaming transcription write failed', {
+          ...this.logFields(ws, sessionId),
+          stage: 'transcription',
+          error
+        })
+        this.abortTranscriptionStream(sessionId)
+      }
+    }
+  }
+
+  /**
+   * Open a streaming transcription if the plugin supports it
+   */
+  private openTranscriptionStream(ws: WebSocket, sessionId: string, header: PcmHeader): void {
+    this.abortTranscriptionStream(sessionId)
+
+    const plugin = this.pipeline?.transcription
+    if (!plugin?.createStream) {
+      return
+    }
+
+    try {
+      const stream = plugin.createStream(header, {
+        onPartial: (text) => {
+          this.wsServer.sendJson(ws, {
+            type: 'partial_transcription',
+            text
+          })
+        },
+        onFinal: (text) => {
+          this.wsServer.sendJson(ws, {
+            type: 'final_transcription',
+            text
+          })
+        }
+      })
+      this.transcriptionStreams.set(sessionId, stream)
+    } catch (error) {
+      this.logger.error('Failed to open streaming transcription', {
+        ...this.logFields(ws, sessionId),
+        stage: 'transcription',
+        error
+      })
+    }
+  }
+
+  /**
+   * Discard an open streaming transcription
+   */
+  private abortTranscriptionStream(sessionId: string): void {
+    const stream = this.transcriptionStreams.get(sessionId)
+    if (!stream) {
+      return
+    }
+
+    this.transcriptionStreams.delete(sessionId)
+    try {
+      stream.abort?.()
+    } catch (error) {
+      this.logger.error('Error aborting streaming transcription', { sessionId, stage: 'transcription', error })
     }
   }
 
@@ -172,32 +945,172 @@ export class VoiceServer {
    * Handle END signal
    */
   private async handleEnd(ws: WebSocket, sessionId: string): Promise<void> {
-    const session = await this.sessionManager.endSession(sessionId)
+    // Drain audio held back by uplink filters; the chunk is stored before bufferAudio
+    // first awaits, so it still lands in the ending session
+    const uplink = this.uplinkProcessors.get(ws)
+    const drained = uplink ? this.bufferAudio(ws, sessionId, uplink.flush()) : undefined
+
+    await this.finishUtterance(ws, sessionId, false, drained)
+  }
+
+  /**
+   * End the current session, start the next one and run the pipeline
+   * @param continueStream Keep the PCM header for the next session (the client keeps streaming)
+   * @param pending Audio still being written to the ending session's transcription stream
+   */
+  private async finishUtterance(
+    ws: WebSocket,
+    sessionId: string,
+    continueStream: boolean,
+    pending?: Promise<void>
+  ): Promise<void> {
+    // After VAD has split off the utterance, END closes a session that may hold only silence
+    const hasSpeech = this.sessionManager.hasSpeech(sessionId)
+    const session = this.sessionManager.getSession(sessionId)
 
     if (!session) {
-      console.warn(`Session not found for END signal: ${sessionId}`)
+      await pending
+      this.logger.warn('Session not found for END signal', this.logFields(ws, sessionId))
       return
     }
 
+    // Create the new session before anything is awaited, so a header or audio the client
+    // sends right away (e.g. a barge-in) goes to it rather than to the ending session
+    const newSessionId = this.startNextSession(ws, session, continueStream ? session.header : null)
+    await pending
+    await this.sessionManager.endSession(sessionId)
+
     // Process audio if pipeline is configured
-    if (this.pipeline) {
+    if (this.pipeline && hasSpeech) {
       await this.processAudio(ws, session)
+    } else if (!hasSpeech) {
+      this.logger.debug('No speech detected, session closed without processing', this.logFields(ws, sessionId))
+      this.abortTranscriptionStream(sessionId)
+    }
+
+    this.wsServer.sendJson(ws, {
+      type: 'session_ready',
+      sessionId: newSessionId,
+      resumeToken: this.wsServer.getSession(ws)?.resumeToken
+    })
+  }
+
+  /**
+   * Handle a streaming session ended by the session reaper
+   * An idle stream is over: the device must send a new header. Audio buffered by an idle
+   * session is processed when `session.processOnIdle` is set. A stream that ran past
+   * maxDurationMs is still arriving, so it continues into the next session.
+   */
+  private async onSessionTimeout(session: StreamingSession, reason: Exclude<SessionEndReason, 'ended'>): Promise<void> {
+    const ws = this.sessionIdToWs.get(session.sessionId)
+    if (!ws) {
+      return
+    }
+
+    this.metrics.sessionTimeouts.inc({ reason })
+    this.logger.info('Streaming session timed out', { ...this.logFields(ws, session.sessionId), reason })
+
+    const continueStream = reason === 'max_duration' && session.header !== null
+    const info = this.wsServer.getSession(ws)
+    if (info && !continueStream) {
+      info.header = null
+    }
+    this.wsServer.sendJson(ws, {
+      type: 'session_timeout',
+      sessionId: session.sessionId,
+      reason
+    })
+
+    const process = reason === 'idle' && this.config.session?.processOnIdle && this.pipeline && session.totalBytes > 0
+    if (!process) {
+      this.abortTranscriptionStream(session.sessionId)
     }
 
-    // Create new session for continued streaming
+    const newSessionId = this.startNextSession(ws, session, continueStream ? session.header : null)
+    if (process) {
+      await this.processAudio(ws, session)
+    }
+
+    this.wsServer.sendJson(ws, {
+      type: 'session_ready',
+      sessionId: newSessionId,
+      resumeToken: this.wsServer.getSession(ws)?.resumeToken
+    })
+  }
+
+  /**
+   * Open the connection's next session, carrying over conversation context
+   * @param nextHeader Header of a stream that continues into the new session
+   * @returns New session ID
+   */
+  private startNextSession(ws: WebSocket, session: StreamingSession, nextHeader: PcmHeader | null): string {
+    this.sessionIdToWs.delete(session.sessionId)
+
     const newSessionId = `session_${Date.now()}_${Math.random().toString(36).substring(7)}`
     this.wsToSessionId.set(ws, newSessionId)
-    this.sessionManager.createSession(newSessionId)
+    this.sessionIdToWs.set(newSessionId, ws)
+    this.sessionManager.createSession(newSessionId, nextHeader)
 
     // Copy conversation context to new session
-    const conversationId = this.sessionManager.getSessionData<string>(sessionId, 'conversationId')
-    if (conversationId) {
-      this.sessionManager.setSessionData(newSessionId, 'conversationId', conversationId)
+    if (session.conversationId) {
+      this.sessionManager.setSessionData(newSessionId, 'conversationId', session.conversationId)
+    }
+    if (session.userId) {
+      this.sessionManager.setSessionData(newSessionId, 'userId', session.userId)
+    }
+
+    if (nextHeader) {
+      this.beginStream(ws, newSessionId, nextHeader)
+    }
+
+    const device = this.devices.findByConnection(ws)
+    if (device) {
+      this.devices.update(device.deviceId, { sessionId: newSessionId })
     }
 
+    return newSessionId
+  }
+
+  /**
+   * Handle start of speech reported by voice activity detection
+   */
+  private onSpeechStart(session: StreamingSession, timeMs: number): void {
+    const ws = this.sessionIdToWs.get(session.sessionId)
+    // Speech behind the wake word gate is not an utterance
+    if (!ws || !this.sessionManager.isCapturing(session.sessionId)) {
+      return
+    }
+
+    this.cancelResponse(ws, 'barge_in')
+
     this.wsServer.sendJson(ws, {
-      type: 'session_ready',
-      sessionId: newSessionId
+      type: 'speech_start',
+      sessionId: session.sessionId,
+      timeMs
+    })
+  }
+
+  /**
+   * Handle end of speech reported by voice activity detection
+   * Ends the utterance and runs the pipeline without waiting for the END signal
+   */
+  private onSpeechEnd(session: StreamingSession, timeMs: number): void {
+    const ws = this.sessionIdToWs.get(session.sessionId)
+    if (!ws || !this.sessionManager.isCapturing(session.sessionId)) {
+      return
+    }
+
+    this.wsServer.sendJson(ws, {
+      type: 'speech_end',
+      sessionId: session.sessionId,
+      timeMs
+    })
+
+    // The stream continues, but the next utterance may come from another direction
+    this.uplinkProcessors.get(ws)?.nextUtterance()
+
+    this.finishUtterance(ws, session.sessionId, true).catch(error => {
+      this.logger.error('Error finishing utterance', { ...this.logFields(ws, session.sessionId), error })
     })
   }
 
@@ -207,46 +1120,381 @@ export class VoiceServer {
   private async handleText(ws: WebSocket, sessionId: string, message: string): Promise<void> {
     // Handle authentication
     if (message.startsWith('AUTH:')) {
-      const userId = message.substring(5).trim()
-      if (userId) {
-        this.sessionManager.setSessionData(sessionId, 'userId', userId)
-        this.wsServer.sendJson(ws, {
-          type: 'auth_success',
-          userId
-        })
+      const credential = message.substring(5).trim()
+
+      if (!this.config.auth) {
+        // Without an auth provider the credential is taken as the user ID
+        if (credential) {
+          this.applyAuth(ws, sessionId, { userId: credential })
+        } else {
+          this.wsServer.sendJson(ws, {
+            type: 'auth_error',
+            message: 'Invalid user_id'
+          })
+        }
+        return
+      }
+
+      const result = credential
+        ? await this.config.auth.provider.authenticate({ token: credential, source: 'message' })
+        : null
+
+      if (result) {
+        this.applyAuth(ws, this.wsToSessionId.get(ws) ?? sessionId, result)
       } else {
         this.wsServer.sendJson(ws, {
           type: 'auth_error',
-          message: 'Invalid user_id'
+          message: 'Invalid token'
+        })
+      }
+      return
+    }
+
+    await this.handleCommand(ws, sessionId, message)
+  }
+
+  /**
+   * Handle JSON control command
+   */
+  private async handleCommand(ws: WebSocket, sessionId: string, text: string): Promise<void> {
+    const parsed = parseControlMessage(text)
+    if (!parsed.ok) {
+      this.wsServer.sendJson(ws, {
+        type: 'error',
+        code: parsed.code,
+        message: parsed.error,
+        ...(parsed.id !== undefined ? { id: parsed.id } : {})
+      })
+      return
+    }
+
+    const message = parsed.message
+    const withId = (reply: Record<string, unknown>) =>
+      message.id !== undefined ? { ...reply, id: message.id } : reply
+
+    const context: CommandContext = {
+      ws,
+      sessionId,
+      reply: (reply) => {
+        this.wsServer.sendJson(ws, withId(reply))
+      },
+      replyError: (code, error) => {
+        this.wsServer.sendJson(ws, withId({ type: 'error', code, message: error }))
+      }
+    }
+
+    const command = this.commands.get(message.type)
+    if (!command) {
+      context.replyError('unknown_command', `Unknown command: ${message.type}`)
+      return
+    }
+
+    if (this.config.auth?.requireAuth && !command.options.allowUnauthenticated && !this.authResults.has(ws)) {
+      context.replyError('auth_required', 'Authentication required')
+      return
+    }
+
+    if (command.options.schema) {
+      const error = validateCommand(message, command.options.schema)
+      if (error) {
+        context.replyError('invalid_message', error)
+        return
+      }
+    }
+
+    try {
+      await command.handler(message, context)
+    } catch (error) {
+      this.logger.error('Error in command handler', { ...this.logFields(ws, sessionId), command: message.type, error })
+      context.replyError('command_failed', `Command failed: ${message.type}`)
+    }
+  }
+
+  /**
+   * Bind a connection to a device and restore its state from earlier connections
+   */
+  private bindDevice(
+    ws: WebSocket,
+    sessionId: string,
+    deviceId: string,
+    info: Pick<DeviceRecord, 'firmwareVersion' | 'capabilities'> = {}
+  ): DeviceRecord {
+    const { record, replaced } = this.devices.attach(deviceId, ws, {
+      ...info,
+      ip: this.remoteAddresses.get(ws),
+      sessionId
+    })
+
+    // Filters and channel policy may be configured for this device
+    this.refreshUplink(ws, sessionId)
+
+    // A device has a single live connection; drop the stale one
+    if (replaced) {
+      try {
+        this.wsServer.close(replaced, 4000, 'Replaced by new connection')
+      } catch (error) {
+        this.logger.error('Error closing replaced connection', { deviceId, error })
+      }
+    }
+
+    const session = this.sessionManager.getSession(sessionId)
+    if (session) {
+      if (!session.conversationId && record.conversationId) {
+        this.sessionManager.setSessionData(sessionId, 'conversationId', record.conversationId)
+      }
+      // Identity is only carried over when it is not established by an auth provider
+      if (!session.userId && record.userId && !this.config.auth) {
+        this.sessionManager.setSessionData(sessionId, 'userId', record.userId)
+      }
+      record.conversationId = session.conversationId
+      record.userId = session.userId ?? record.userId
+    }
+
+    return record
+  }
+
+  /**
+   * Register built-in control commands
+   */
+  private registerBuiltinCommands(): void {
+    this.registerCommand<HelloMessage>('hello', (message, context) => {
+      const authenticatedDevice = this.authResults.get(context.ws)?.deviceId
+      if (authenticatedDevice && message.deviceId && message.deviceId !== authenticatedDevice) {
+        context.replyError('invalid_message', 'deviceId does not match the authenticated device')
+        return
+      }
+
+      // With an auth provider only the authenticated device ID is trusted; a claimed one is not bound
+      const deviceId = this.config.auth ? authenticatedDevice : message.deviceId
+      if (message.deviceId && !deviceId) {
+        this.logger.debug('Unverified deviceId in hello not bound', { ...this.logFields(context.ws, context.sessionId), claimed: message.deviceId })
+      }
+      this.clientInfo.set(context.ws, {
+        deviceId,
+        firmwareVersion: message.firmwareVersion,
+        capabilities: message.capabilities
+      })
+
+      const device = deviceId
+        ? this.bindDevice(context.ws, context.sessionId, deviceId, {
+          firmwareVersion: message.firmwareVersion,
+          capabilities: message.capabilities
         })
+        : undefined
+
+      context.reply({
+        type: 'hello_ack',
+        v: PROTOCOL_VERSION,
+        sessionId: context.sessionId,
+        commands: Array.from(this.commands.keys()),
+        ...(device ? { deviceId: device.deviceId, conversationId: device.conversationId } : {})
+      })
+    }, { schema: BUILTIN_COMMAND_SCHEMAS.hello, allowUnauthenticated: true })
+
+    this.registerCommand<SetConversationMessage>('set_conversation', (message, context) => {
+      this.sessionManager.setSessionData(context.sessionId, 'conversationId', message.conversationId)
+
+      const device = this.devices.findByConnection(context.ws)
+      if (device) {
+        this.devices.update(device.deviceId, { conversationId: message.conversationId })
       }
+      context.reply({
+        type: 'conversation_set',
+        conversationId: message.conversationId
+      })
+    }, { schema: BUILTIN_COMMAND_SCHEMAS.set_conversation })
+
+    this.registerCommand('cancel', (_message, context) => {
+      const cancelled = this.cancelResponse(context.ws, 'client_cancel')
+      context.reply({
+        type: 'cancel_ack',
+        cancelled
+      })
+    }, { schema: BUILTIN_COMMAND_SCHEMAS.cancel })
+
+    this.registerCommand<ConfigMessage>('config', (message, context) => {
+      const settings = { ...this.clientConfigs.get(context.ws), ...message.settings }
+      this.clientConfigs.set(context.ws, settings)
+      context.reply({
+        type: 'config_ack',
+        settings
+      })
+    }, { schema: BUILTIN_COMMAND_SCHEMAS.config })
+
+    this.registerCommand<PingMessage>('ping', (message, context) => {
+      context.reply({
+        type: 'pong',
+        timestamp: message.timestamp,
+        serverTime: Date.now()
+      })
+    }, { schema: BUILTIN_COMMAND_SCHEMAS.ping, allowUnauthenticated: true })
+  }
+
+  /**
+   * Validate a token presented during the HTTP upgrade
+   * Connections without a token are accepted and may authenticate with `AUTH:<token>`
+   */
+  private async verifyUpgrade(request: IncomingMessage): Promise<boolean> {
+    const auth = this.config.auth
+    if (!auth) {
+      return true
+    }
+
+    const token = extractUpgradeToken(request, auth.queryParam, auth.headerName)
+    if (!token) {
+      return true
+    }
+
+    const result = await auth.provider.authenticate({ token, source: 'upgrade', request })
+    if (!result) {
+      this.logger.warn('Rejected WebSocket upgrade: invalid token', { ip: request.socket.remoteAddress })
+      return false
     }
+
+    this.upgradeAuth.set(request, result)
+    return true
+  }
+
+  /**
+   * Mark a connection as authenticated
+   */
+  private applyAuth(ws: WebSocket, sessionId: string, result: AuthResult): void {
+    this.authResults.set(ws, result)
+    this.sessionManager.setSessionData(sessionId, 'userId', result.userId)
+
+    if (result.deviceId) {
+      this.bindDevice(ws, sessionId, result.deviceId)
+    }
+
+    this.wsServer.sendJson(ws, {
+      type: 'auth_success',
+      userId: result.userId,
+      ...(result.deviceId ? { deviceId: result.deviceId } : {})
+    })
   }
 
   /**
    * Process audio through pipeline
+   * The turn can be cancelled with cancelResponse (barge-in)
    */
   private async processAudio(ws: WebSocket, session: StreamingSession): Promise<void> {
     if (!this.pipeline || !session.header) {
       return
     }
 
-    const audioData = this.sessionManager.getAudioData(session.sessionId)
-    if (!audioData || audioData.length === 0) {
+    const stream = this.transcriptionStreams.get(session.sessionId)
+    this.transcriptionStreams.delete(session.sessionId)
+
+    // The session has already been removed from the manager, so read it directly
+    const audioData = session.audio?.view() ?? Buffer.alloc(0)
+    if (audioData.length === 0) {
+      stream?.abort?.()
       return
     }
 
+    // A previous turn still running on this connection is superseded
+    this.cancelResponse(ws, 'superseded')
+
+    const controller = new AbortController()
+    const { signal } = controller
+    this.activeResponses.set(ws, controller)
+    const log = withFields(this.logger, this.logFields(ws, session.sessionId))
+
+    const deviceId = this.devices.findByConnection(ws)?.deviceId
+    const recorder = this.config.recorder?.shouldRecord({ sessionId: session.sessionId, deviceId, userId: session.userId })
+      ? this.config.recorder
+      : undefined
+    const turn: RecordingInput = {
+      sessionId: session.sessionId,
+      deviceId,
+      userId: session.userId,
+      conversationId: session.conversationId,
+      header: session.header,
+      startedAt: session.startTime,
+      endedAt: Date.now(),
+      timings: {},
+      outcome: 'failed'
+    }
+    const responseAudio: Buffer[] | null = recorder?.recordsResponseAudio() ? [] : null
+
+    // Retries and fallbacks made by composite plugins
+    const attempts: PluginAttempt[] = []
+    session.attempts = attempts
+    turn.attempts = attempts
+    const onAttempt = (attempt: PluginAttempt) => {
+      attempts.push(attempt)
+      if (!attempt.ok) {
+        log.warn('Plugin attempt failed', { ...attempt })
+      }
+    }
+
+    let slot: TurnSlot | null = null
+
+    // Failures are reported to the client and answered with canned audio when configured;
+    // the canned audio plays without holding pipeline capacity
+    let stage: PipelineStage = 'transcription'
+    const fail = async (failedStage: PipelineStage, message: string) => {
+      log.warn(message, { stage: failedStage })
+      turn.error = message
+      turn.failedStage = failedStage
+      this.sendStageError(ws, failedStage, message)
+      slot?.release()
+      if (failedStage !== 'playback') {
+        await this.playCannedResponse(ws, `${failedStage}_failed`, signal)
+      }
+    }
+
     try {
-      // Transcription
-      const transcription = await this.pipeline.transcription.transcribe(audioData, session.header)
-      if (!transcription) {
-        console.warn('Transcription failed')
+      // Wait for pipeline capacity; the client hears about its queue position or rejection
+      slot = await this.scheduler.acquire(ws, {
+        signal,
+        onQueued: (position) => this.wsServer.sendJson(ws, {
+          type: 'queue_position',
+          sessionId: session.sessionId,
+          position
+        }),
+        onRejected: (reason) => {
+          this.metrics.turnsRejected.inc({ reason })
+          log.warn('Turn rejected by scheduler', { reason })
+          turn.error = `Busy: ${reason}`
+          this.wsServer.sendJson(ws, { type: 'busy', sessionId: session.sessionId, reason })
+        }
+      })
+      if (!slot) {
+        stream?.abort?.()
         return
       }
+      const { header } = session
 
-      if (this.config.pipeline?.verbose) {
-        console.log(`Transcription: "${transcription}"`)
+      // Transcription (streaming if a stream was opened for this utterance)
+      const endTranscription = this.metrics.stageDuration.startTimer({ stage: 'transcription' })
+      const transcription = await slot.runStage('transcription', () => stream
+        ? stream.end()
+        : this.pipeline!.transcription.transcribe(audioData, header, { signal, onAttempt }), signal)
+      turn.timings.transcriptionMs = Math.round(endTranscription() * 1000)
+      turn.transcription = transcription
+      if (signal.aborted) {
+        return
+      }
+      if (transcription === null) {
+        await fail('transcription', 'Transcription failed')
+        return
       }
+      if (!transcription.trim()) {
+        log.debug('No speech detected', { stage: 'transcription' })
+        turn.error = 'No speech detected'
+        this.wsServer.sendJson(ws, {
+          type: 'error',
+          code: 'no_speech',
+          stage: 'transcription',
+          message: 'No speech detected'
+        })
+        slot.release()
+        await this.playCannedResponse(ws, 'no_speech', signal)
+        return
+      }
+
+      log.debug('Transcription', { stage: 'transcription', text: transcription })
 
       this.wsServer.sendJson(ws, {
         type: 'transcription',
@@ -256,19 +1504,36 @@ export class VoiceServer {
       // Generate response
       const context: ConversationContext = {
         sessionId: session.sessionId,
-        conversationId: this.sessionManager.getSessionData(session.sessionId, 'conversationId'),
-        userId: this.sessionManager.getSessionData(session.sessionId, 'userId')
+        conversationId: session.conversationId,
+        userId: session.userId
       }
+      const client = this.clientInfo.get(ws)
+      const clientConfig = this.clientConfigs.get(ws)
+      if (client || clientConfig) {
+        context.metadata = { client, clientConfig }
+      }
+      context.history = await this.loadHistory(context)
 
-      const response = await this.pipeline.conversation.generate(transcription, context)
+      stage = 'generation'
+      const endGeneration = this.metrics.stageDuration.startTimer({ stage: 'generation' })
+      const response = await slot.runStage(
+        'generation',
+        () => this.pipeline!.conversation.generate(transcription, context, { signal, onAttempt }),
+        signal
+      )
+      turn.timings.generationMs = Math.round(endGeneration() * 1000)
+      turn.response = response
+      if (signal.aborted) {
+        return
+      }
       if (!response) {
-        console.warn('Response generation failed')
+        await fail('generation', 'Response generation failed')
         return
       }
 
-      if (this.config.pipeline?.verbose) {
-        console.log(`Response: "${response}"`)
-      }
+      await this.storeHistory(context, transcription, response)
+
+      log.debug('Response', { stage: 'generation', text: response })
 
       this.wsServer.sendJson(ws, {
         type: 'response',
@@ -276,36 +1541,252 @@ export class VoiceServer {
       })
 
       // Synthesize speech
-      const audioBuffer = await this.pipeline.synthesis.synthesize(response)
+      stage = 'synthesis'
+      const synthesis = this.pipeline.synthesis
+      const source = { format: synthesis.outputFormat, sampleRate: synthesis.outputSampleRate }
+      const send = (data: Buffer) => this.wsServer.send(ws, data)
+
+      if (synthesis.synthesizeStream) {
+        // Synthesis runs ahead of paced playback (and of earlier queued audio) under the
+        // synthesis cap; the turn slot is returned as soon as the stream is complete
+        const synthesisController = new AbortController()
+        const stopSynthesis = () => synthesisController.abort()
+        signal.addEventListener('abort', stopSynthesis, { once: true })
+        const turnSlot = slot
+        const chunks = this.readAhead(turnSlot.runStageStream('synthesis', () => this.timeFirstChunk(
+          synthesis.synthesizeStream!(response, { signal: synthesisController.signal, onAttempt }),
+          'synthesis',
+          (seconds) => { turn.timings.synthesisMs = Math.round(seconds * 1000) },
+          responseAudio
+        ), synthesisController.signal), () => turnSlot.release())
+
+        const sent = await this.enqueuePlayback(ws, (playSignal) => streamDownlinkAudio(
+          chunks,
+          send,
+          source,
+          this.downlinkConfig(),
+          { signal: playSignal }
+        ), { signal })
+        // Playback that was skipped or interrupted no longer needs the stream
+        signal.removeEventListener('abort', stopSynthesis)
+        stopSynthesis()
+        if (!sent && !signal.aborted) {
+          await fail('synthesis', 'Streaming audio response failed')
+        } else if (sent) {
+          turn.outcome = 'completed'
+        }
+        return
+      }
+
+      const endSynthesis = this.metrics.stageDuration.startTimer({ stage: 'synthesis' })
+      const audioBuffer = await slot.runStage('synthesis', () => synthesis.synthesize(response, { signal, onAttempt }), signal)
+      turn.timings.synthesisMs = Math.round(endSynthesis() * 1000)
+      // Playback is paced by the device, not the pipeline
+      slot.release()
+      if (signal.aborted) {
+        return
+      }
       if (!audioBuffer) {
-        console.warn('Speech synthesis failed')
+        await fail('synthesis', 'Speech synthesis failed')
         return
       }
+      responseAudio?.push(audioBuffer)
 
       // Send audio response
-      this.wsServer.send(ws, audioBuffer)
+      stage = 'playback'
+      const sent = await this.enqueuePlayback(ws, (playSignal) => this.config.downlink
+        ? streamDownlinkAudio(audioBuffer, send, source, this.downlinkConfig(), { signal: playSignal })
+        : Promise.resolve(send(audioBuffer)), { signal })
+      if (!sent && !signal.aborted) {
+        await fail('playback', 'Sending audio response failed')
+      } else if (sent) {
+        turn.outcome = 'completed'
+      }
     } catch (error) {
-      console.error('Error processing audio:', error)
-      this.wsServer.sendJson(ws, {
-        type: 'error',
-        message: 'Failed to process audio'
-      })
+      // Plugins may reject with an AbortError once cancelled
+      if (signal.aborted) {
+        return
+      }
+
+      log.error('Error processing audio', { stage, error })
+      turn.error = error instanceof Error ? error.message : String(error)
+      turn.failedStage = stage
+      this.sendStageError(ws, stage, 'Failed to process audio')
+      slot?.release()
+      if (stage !== 'playback') {
+        await this.playCannedResponse(ws, `${stage}_failed`, signal)
+      }
+    } finally {
+      slot?.release()
+      if (this.activeResponses.get(ws) === controller) {
+        this.activeResponses.delete(ws)
+      }
+
+      if (recorder) {
+        if (signal.aborted) {
+          turn.outcome = 'cancelled'
+        }
+        const audio = responseAudio && responseAudio.length > 0 ? Buffer.concat(responseAudio) : undefined
+        void recorder.save(turn, audioData, audio, this.pipeline.synthesis.outputFormat)
+      }
+    }
+  }
+
+  /**
+   * Record the time until a streamed stage yields its first chunk, optionally keeping the chunks
+   */
+  private async *timeFirstChunk(
+    chunks: AsyncIterable<Buffer>,
+    stage: string,
+    onFirstChunk?: (seconds: number) => void,
+    collect?: Buffer[] | null
+  ): AsyncIterable<Buffer> {
+    const end = this.metrics.stageDuration.startTimer({ stage })
+    let first = true
+    for await (const chunk of chunks) {
+      if (first) {
+        onFirstChunk?.(end())
+        first = false
+      }
+      collect?.push(chunk)
+      yield chunk
+    }
+  }
+
+  /**
+   * Pull a stream to its end in the background, buffering chunks until the consumer reads them
+   * Errors from the source are rethrown to the consumer.
+   * @param onDone Called once when the source ends or fails
+   */
+  private readAhead<T>(source: AsyncIterable<T>, onDone: () => void): AsyncIterable<T> {
+    const buffered: T[] = []
+    let done = false
+    let failed = false
+    let failure: unknown
+    let wake = null as (() => void) | null
+
+    void (async () => {
+      try {
+        for await (const chunk of source) {
+          buffered.push(chunk)
+          wake?.()
+        }
+      } catch (error) {
+        failed = true
+        failure = error
+      } finally {
+        done = true
+        onDone()
+        wake?.()
+      }
+    })()
+
+    return (async function* () {
+      while (true) {
+        if (buffered.length > 0) {
+          yield buffered.shift()!
+        } else if (done) {
+          if (failed) {
+            throw failure
+          }
+          return
+        } else {
+          await new Promise<void>((resolve) => { wake = resolve })
+          wake = null
+        }
+      }
+    })()
+  }
+
+  /**
+   * Load the most recent history within the configured budget
+   */
+  private async loadHistory(context: ConversationContext): Promise<ConversationContext['history']> {
+    const history = this.config.history
+    const key = getConversationKey(context.conversationId, context.userId)
+    if (!history || !key) {
+      return undefined
+    }
+
+    try {
+      const maxTurns = history.maxTurns ?? 10
+      const messages = await history.store.load(key, maxTurns * 2)
+      return trimHistory(messages, maxTurns, history.maxTokens, history.estimateTokens)
+        .map(({ role, content }) => ({ role, content }))
+    } catch (error) {
+      this.logger.error('Failed to load conversation history', { sessionId: context.sessionId, key, error })
+      return undefined
     }
   }
 
   /**
-   * Session lifecycle hooks
+   * Persist a completed turn to the store and the conversation plugin
    */
-  private onSessionCreate(session: StreamingSession): void {
-    if (this.config.pipeline?.verbose) {
-      console.log(`Session created: ${session.sessionId}`)
+  private async storeHistory(context: ConversationContext, userMessage: string, assistantMessage: string): Promise<void> {
+    const history = this.config.history
+    const key = getConversationKey(context.conversationId, context.userId)
+
+    if (history && key) {
+      const timestamp = Date.now()
+      try {
+        await history.store.append(key, [
+          { role: 'user', content: userMessage, timestamp },
+          { role: 'assistant', content: assistantMessage, timestamp }
+        ])
+      } catch (error) {
+        this.logger.error('Failed to store conversation history', { sessionId: context.sessionId, key, error })
+      }
+    }
+
+    const plugin = this.pipeline?.conversation
+    if (plugin?.storeHistory) {
+      try {
+        await plugin.storeHistory(context, userMessage, assistantMessage)
+      } catch (error) {
+        this.logger.error('Error in storeHistory', { sessionId: context.sessionId, error })
+      }
     }
   }
 
-  private onSessionEnd(session: StreamingSession): void {
-    if (this.config.pipeline?.verbose) {
-      console.log(`Session ended: ${session.sessionId}`)
+  /**
+   * Cancel the in-flight response on a connection
+   * Aborts plugin calls, stops downlink audio and notifies the client
+   * @returns True if a response was cancelled
+   */
+  private cancelResponse(ws: WebSocket, reason: string): boolean {
+    const controller = this.activeResponses.get(ws)
+    if (!controller) {
+      return false
     }
+
+    this.activeResponses.delete(ws)
+    controller.abort()
+
+    this.wsServer.sendJson(ws, {
+      type: 'response_cancelled',
+      reason
+    })
+    return true
+  }
+
+  /**
+   * Structured log fields identifying a connection
+   */
+  private logFields(ws: WebSocket, sessionId: string): LogFields {
+    const deviceId = this.devices.findByConnection(ws)?.deviceId
+    return deviceId ? { sessionId, deviceId } : { sessionId }
+  }
+
+  /**
+   * Tell the client which pipeline stage failed
+   */
+  private sendStageError(ws: WebSocket, stage: PipelineStage, message: string): void {
+    this.wsServer.sendJson(ws, {
+      type: 'error',
+      code: 'processing_failed',
+      stage,
+      message
+    })
   }
 }
 
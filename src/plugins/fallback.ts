@@ -0,0 +1,240 @@
+import type { PcmHeader, PipelineStage, PluginAttempt } from '../types/index.js'
+import type { AudioContainerFormat } from '../core/decoder.js'
+import type {
+  TranscriptionPlugin,
+  ConversationPlugin,
+  SynthesisPlugin,
+  ConversationContext,
+  PluginCallOptions
+} from './index.js'
+
+/**
+ * Retry, timeout and fallback settings for composite plugins
+ */
+export interface FallbackOptions {
+  /** Plugin name (default: 'fallback(<names>)') */
+  name?: string
+  /** Retries per plugin after the first attempt (default: 1) */
+  retries?: number
+  /** Delay before the first retry in milliseconds; doubles on each retry (default: 250) */
+  backoffMs?: number
+  /** Maximum retry delay in milliseconds (default: 2000) */
+  maxBackoffMs?: number
+  /** Per-call timeout in milliseconds; the call's signal is aborted on timeout (default: 0, no timeout) */
+  timeoutMs?: number
+}
+
+type FallbackSettings = Required<Omit<FallbackOptions, 'name'>>
+
+const TIMEOUT = Symbol('timeout')
+
+/**
+ * Call plugins in order, retrying each with backoff, until one returns a result
+ * @returns First non-null result, or null when every attempt failed or the call was aborted
+ */
+async function callWithFallback<P extends { name: string }, T>(
+  stage: PipelineStage,
+  plugins: P[],
+  call: (plugin: P, options: PluginCallOptions) => Promise<T | null>,
+  settings: FallbackSettings,
+  options: PluginCallOptions = {}
+): Promise<T | null> {
+  const { signal, onAttempt } = options
+
+  for (const plugin of plugins) {
+    for (let attempt = 1; attempt <= settings.retries + 1; attempt++) {
+      if (attempt > 1) {
+        const delay = Math.min(settings.backoffMs * 2 ** (attempt - 2), settings.maxBackoffMs)
+        await sleep(delay, signal)
+      }
+      if (signal?.aborted) {
+        return null
+      }
+
+      // Each attempt gets its own signal so a timed-out call can be abandoned
+      const controller = new AbortController()
+      const onAbort = () => controller.abort()
+      signal?.addEventListener('abort', onAbort, { once: true })
+      let timer: NodeJS.Timeout | undefined
+      const start = Date.now()
+      let result: T | null = null
+      let error: string | undefined
+
+      try {
+        const pending = call(plugin, { signal: controller.signal, onAttempt })
+        if (settings.timeoutMs > 0) {
+          // The abandoned call may still reject later
+          pending.catch(() => undefined)
+          const outcome = await Promise.race([
+            pending,
+            new Promise<typeof TIMEOUT>((resolve) => {
+              timer = setTimeout(() => resolve(TIMEOUT), settings.timeoutMs)
+            })
+          ])
+          if (outcome === TIMEOUT) {
+            controller.abort()
+            error = 'timeout'
+          } else {
+            result = outcome
+          }
+        } else {
+          result = await pending
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err)
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      if (signal?.aborted) {
+        return null
+      }
+
+      const record: PluginAttempt = {
+        stage,
+        plugin: plugin.name,
+        attempt,
+        ok: result !== null,
+        durationMs: Date.now() - start
+      }
+      if (result === null) {
+        record.error = error ?? 'null result'
+      }
+      onAttempt?.(record)
+      if (result !== null) {
+        return result
+      }
+    }
+  }
+
+  return null
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+function resolveSettings(options: FallbackOptions): FallbackSettings {
+  return {
+    retries: options.retries ?? 1,
+    backoffMs: options.backoffMs ?? 250,
+    maxBackoffMs: options.maxBackoffMs ?? 2000,
+    timeoutMs: options.timeoutMs ?? 0
+  }
+}
+
+function compositeName(plugins: Array<{ name: string }>, options: FallbackOptions): string {
+  if (plugins.length === 0) {
+    throw new Error('Fallback plugin needs at least one plugin')
+  }
+  return options.name ?? `fallback(${plugins.map(plugin => plugin.name).join(',')})`
+}
+
+/**
+ * Transcription plugin that retries and falls back across several providers
+ * Uses batch `transcribe` only; audio is resampled to the first plugin's inputSampleRate.
+ */
+export class FallbackTranscriptionPlugin implements TranscriptionPlugin {
+  readonly name: string
+  readonly inputSampleRate?: number
+  private plugins: TranscriptionPlugin[]
+  private settings: FallbackSettings
+
+  constructor(plugins: TranscriptionPlugin[], options: FallbackOptions = {}) {
+    this.name = compositeName(plugins, options)
+    this.plugins = plugins
+    this.settings = resolveSettings(options)
+    this.inputSampleRate = plugins[0]!.inputSampleRate
+  }
+
+  transcribe(audioBuffer: Buffer, header: PcmHeader, options?: PluginCallOptions): Promise<string | null> {
+    return callWithFallback(
+      'transcription',
+      this.plugins,
+      (plugin, callOptions) => plugin.transcribe(audioBuffer, header, callOptions),
+      this.settings,
+      options
+    )
+  }
+}
+
+/**
+ * Conversation plugin that retries and falls back across several providers
+ * History is stored through the first plugin that implements storeHistory.
+ */
+export class FallbackConversationPlugin implements ConversationPlugin {
+  readonly name: string
+  private plugins: ConversationPlugin[]
+  private settings: FallbackSettings
+
+  constructor(plugins: ConversationPlugin[], options: FallbackOptions = {}) {
+    this.name = compositeName(plugins, options)
+    this.plugins = plugins
+    this.settings = resolveSettings(options)
+  }
+
+  generate(userInput: string, context: ConversationContext, options?: PluginCallOptions): Promise<string | null> {
+    return callWithFallback(
+      'generation',
+      this.plugins,
+      (plugin, callOptions) => plugin.generate(userInput, context, callOptions),
+      this.settings,
+      options
+    )
+  }
+
+  async storeHistory(context: ConversationContext, userMessage: string, assistantMessage: string): Promise<void> {
+    const plugin = this.plugins.find(candidate => candidate.storeHistory)
+    await plugin?.storeHistory?.(context, userMessage, assistantMessage)
+  }
+}
+
+/**
+ * Synthesis plugin that retries and falls back across several providers
+ * Uses batch `synthesize` only. outputFormat and outputSampleRate are set when all
+ * plugins agree; otherwise the format is detected from each result.
+ */
+export class FallbackSynthesisPlugin implements SynthesisPlugin {
+  readonly name: string
+  readonly outputFormat?: AudioContainerFormat
+  readonly outputSampleRate?: number
+  private plugins: SynthesisPlugin[]
+  private settings: FallbackSettings
+
+  constructor(plugins: SynthesisPlugin[], options: FallbackOptions = {}) {
+    this.name = compositeName(plugins, options)
+    this.plugins = plugins
+    this.settings = resolveSettings(options)
+
+    const first = plugins[0]!
+    if (plugins.every(plugin => plugin.outputFormat === first.outputFormat)) {
+      this.outputFormat = first.outputFormat
+    }
+    if (plugins.every(plugin => plugin.outputSampleRate === first.outputSampleRate)) {
+      this.outputSampleRate = first.outputSampleRate
+    }
+  }
+
+  synthesize(text: string, options?: PluginCallOptions): Promise<Buffer | null> {
+    return callWithFallback(
+      'synthesis',
+      this.plugins,
+      (plugin, callOptions) => plugin.synthesize(text, callOptions),
+      this.settings,
+      options
+    )
+  }
+}
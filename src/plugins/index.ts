@@ -1,4 +1,15 @@
-import type { PcmHeader } from '../types/index.js'
+import type { PcmHeader, PluginAttempt } from '../types/index.js'
+import type { AudioContainerFormat } from '../core/decoder.js'
+
+/**
+ * Per-call options passed to pipeline plugins
+ */
+export interface PluginCallOptions {
+  /** Aborted when the in-flight response is cancelled (e.g. the user starts talking again) */
+  signal?: AbortSignal
+  /** Receives each call made by composite plugins (retries and fallbacks) */
+  onAttempt?: (attempt: PluginAttempt) => void
+}
 
 /**
  * Transcription plugin interface
@@ -14,9 +25,59 @@ export interface TranscriptionPlugin {
    * Transcribe audio buffer to text
    * @param audioBuffer PCM audio data
    * @param header PCM audio format information
+   * @param options Call options (abort signal)
    * @returns Transcribed text or null on failure
    */
-  transcribe(audioBuffer: Buffer, header: PcmHeader): Promise<string | null>
+  transcribe(audioBuffer: Buffer, header: PcmHeader, options?: PluginCallOptions): Promise<string | null>
+
+  /**
+   * Optional: Sample rate the recognizer expects (e.g. 16000)
+   * Device audio at other rates is resampled before buffering; the header passed
+   * to `transcribe`/`createStream` reports this rate
+   */
+  inputSampleRate?: number
+
+  /**
+   * Optional: Open a streaming transcription for one utterance
+   * When implemented, audio chunks are fed as they arrive instead of
+   * calling `transcribe` once after the END signal
+   * @param header PCM audio format information
+   * @param callbacks Receivers for intermediate and final results
+   * @returns Stream that accepts audio chunks
+   */
+  createStream?(header: PcmHeader, callbacks: TranscriptionStreamCallbacks): TranscriptionStream
+}
+
+/**
+ * Result callbacks for a streaming transcription
+ */
+export interface TranscriptionStreamCallbacks {
+  /** Called with an intermediate hypothesis that may still change */
+  onPartial?: (text: string) => void
+  /** Called when a segment of the utterance is finalized */
+  onFinal?: (text: string) => void
+}
+
+/**
+ * Streaming transcription handle for a single utterance
+ */
+export interface TranscriptionStream {
+  /**
+   * Feed an audio chunk
+   * @param chunk PCM audio data
+   */
+  write(chunk: Buffer): void | Promise<void>
+
+  /**
+   * Signal end of audio and wait for the final transcription
+   * @returns Full transcribed text or null on failure
+   */
+  end(): Promise<string | null>
+
+  /**
+   * Optional: Discard the stream without producing a result
+   */
+  abort?(): void
 }
 
 /**
@@ -32,9 +93,29 @@ export interface SynthesisPlugin {
   /**
    * Synthesize text to audio
    * @param text Text to synthesize
+   * @param options Call options (abort signal)
    * @returns Audio buffer (format varies by provider) or null on failure
    */
-  synthesize(text: string): Promise<Buffer | null>
+  synthesize(text: string, options?: PluginCallOptions): Promise<Buffer | null>
+
+  /**
+   * Optional: Synthesize text as a stream of audio chunks
+   * When implemented, audio is framed and sent to the device as chunks arrive
+   * @param text Text to synthesize
+   * @param options Call options (abort signal)
+   * @returns Async iterable of audio chunks in `outputFormat`
+   */
+  synthesizeStream?(text: string, options?: PluginCallOptions): AsyncIterable<Buffer>
+
+  /**
+   * Optional: Container format of synthesized audio (detected from content when omitted)
+   */
+  outputFormat?: AudioContainerFormat
+
+  /**
+   * Optional: Sample rate of raw 'pcm' output in Hz (default: downlink sample rate)
+   */
+  outputSampleRate?: number
 }
 
 /**
@@ -67,9 +148,10 @@ export interface ConversationPlugin {
    * Generate response based on user input and conversation context
    * @param userInput User's input text
    * @param context Conversation context
+   * @param options Call options (abort signal)
    * @returns Generated response text or null on failure
    */
-  generate(userInput: string, context: ConversationContext): Promise<string | null>
+  generate(userInput: string, context: ConversationContext, options?: PluginCallOptions): Promise<string | null>
 
   /**
    * Optional: Store conversation history
@@ -84,6 +166,51 @@ export interface ConversationPlugin {
   ): Promise<void>
 }
 
+/**
+ * Wake word detection
+ */
+export interface WakeWordDetection {
+  /** Keyword that was heard */
+  keyword: string
+  /** Detection confidence from 0 to 1 */
+  confidence: number
+}
+
+/**
+ * Wake word detector for one audio stream
+ */
+export interface WakeWordDetector {
+  /**
+   * Analyze live audio
+   * @param chunk PCM audio data in the stream's format
+   * @returns Detection, or null while no keyword has been heard
+   */
+  process(chunk: Buffer): WakeWordDetection | null
+
+  /**
+   * Optional: Forget buffered audio (called after a detection and for each new stream)
+   */
+  reset?(): void
+}
+
+/**
+ * Wake word plugin interface
+ * Gates the pipeline: audio is kept on the server only after a keyword is detected
+ */
+export interface WakeWordPlugin {
+  /**
+   * Plugin name for identification
+   */
+  name: string
+
+  /**
+   * Create a detector for one stream
+   * @param header PCM format of the stream (after uplink processing)
+   * @returns Detector fed with the stream's audio until it reports a keyword
+   */
+  createDetector(header: PcmHeader): WakeWordDetector
+}
+
 /**
  * Voice processing pipeline configuration
  */
@@ -94,6 +221,14 @@ export interface PipelineConfig {
   conversation: ConversationPlugin
   /** Text-to-speech synthesis plugin */
   synthesis: SynthesisPlugin
-  /** Enable verbose logging */
+  /**
+   * Optional: Wake word gate; audio before a detection is neither buffered (beyond the
+   * session pre-roll) nor sent to transcription
+   */
+  wakeWord?: WakeWordPlugin
+  /** @deprecated Use `VoiceServerConfig.logger`; true logs to the console at debug level */
   verbose?: boolean
 }
+
+export * from './fallback.js'
+export * from './wake-word.js'
@@ -0,0 +1,405 @@
+import type { PcmHeader } from '../types/index.js'
+import { resamplePcm16 } from '../core/resampler.js'
+import type { WakeWordPlugin, WakeWordDetector, WakeWordDetection } from './index.js'
+
+/**
+ * Recording of a keyword for template matching
+ */
+export interface WakeWordTemplate {
+  /** Keyword reported on detection */
+  keyword: string
+  /** Recording of the keyword as 16-bit little-endian PCM; leading and trailing silence is trimmed */
+  audio: Buffer
+  /** Sample rate of the recording */
+  sampleRate: number
+  /** Interleaved channels in the recording (default: 1) */
+  channels?: number
+}
+
+/**
+ * Template wake word options
+ */
+export interface TemplateWakeWordOptions {
+  /** Plugin name (default: 'template') */
+  name?: string
+  /** Minimum confidence from 0 to 1 to report a detection (default: 0.5) */
+  threshold?: number
+  /** How often recent audio is matched against the templates in milliseconds (default: 50) */
+  hopMs?: number
+  /** Frames quieter than this in dBFS are treated as silence (default: -50) */
+  silenceDb?: number
+}
+
+const FRAME_MS = 25
+const FRAME_HOP_MS = 10
+const MEL_BANDS = 20
+const FEATURE_COUNT = 12
+
+/** Frames more than this far below the loudest template frame are trimmed as silence */
+const TRIM_DB = 35
+
+/** Average per-frame feature distance at which confidence is 1/e */
+const DISTANCE_SCALE = 5
+
+interface FeatureFrame {
+  /** Cepstral coefficients c1..c12 */
+  features: Float64Array
+  /** Frame energy in dBFS */
+  db: number
+}
+
+interface Template {
+  keyword: string
+  /** Mean-normalized cepstral features */
+  features: Float64Array[]
+}
+
+/**
+ * Streaming MFCC extractor (25 ms frames every 10 ms)
+ */
+class FeatureExtractor {
+  private frameSize: number
+  private hopSize: number
+  private fftSize: number
+  private window: Float64Array
+  /** Triangular mel filters as [first bin, weights] */
+  private filters: Array<[number, Float64Array]>
+  private pending: Float64Array = new Float64Array(0)
+
+  constructor(sampleRate: number) {
+    this.frameSize = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000))
+    this.hopSize = Math.max(1, Math.round(sampleRate * FRAME_HOP_MS / 1000))
+    this.fftSize = 2 ** Math.ceil(Math.log2(this.frameSize))
+
+    this.window = new Float64Array(this.frameSize)
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.54 - 0.46 * Math.cos(2 * Math.PI * i / Math.max(1, this.frameSize - 1))
+    }
+
+    // Mel filters from 100 Hz to 4 kHz (or Nyquist)
+    const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+    const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+    const low = toMel(100)
+    const high = toMel(Math.min(4000, sampleRate / 2))
+    const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+      toHz(low + (high - low) * i / (MEL_BANDS + 1)) * this.fftSize / sampleRate
+    )
+    this.filters = []
+    for (let band = 0; band < MEL_BANDS; band++) {
+      const [left, center, right] = [edges[band]!, edges[band + 1]!, edges[band + 2]!]
+      const first = Math.ceil(left)
+      const weights = new Float64Array(Math.max(0, Math.floor(right) - first + 1))
+      for (let i = 0; i < weights.length; i++) {
+        const bin = first + i
+        weights[i] = bin <= center ? (bin - left) / (center - left) : (right - bin) / (right - center)
+      }
+      this.filters.push([first, weights])
+    }
+  }
+
+  /**
+   * Add mono samples and return the frames they complete
+   */
+  process(samples: Float64Array): FeatureFrame[] {
+    const input = new Float64Array(this.pending.length + samples.length)
+    input.set(this.pending)
+    input.set(samples, this.pending.length)
+
+    const frames: FeatureFrame[] = []
+    let start = 0
+    for (; start + this.frameSize <= input.length; start += this.hopSize) {
+      frames.push(this.analyze(input, start))
+    }
+    this.pending = input.slice(start)
+    return frames
+  }
+
+  reset(): void {
+    this.pending = new Float64Array(0)
+  }
+
+  private analyze(input: Float64Array, start: number): FeatureFrame {
+    const real = new Float64Array(this.fftSize)
+    const imag = new Float64Array(this.fftSize)
+    let energy = 0
+    for (let i = 0; i < this.frameSize; i++) {
+      const sample = input[start + i]!
+      energy += sample * sample
+      real[i] = sample * this.window[i]!
+    }
+    fft(real, imag)
+
+    const logMel = new Float64Array(MEL_BANDS)
+    this.filters.forEach(([first, weights], band) => {
+      let sum = 0
+      for (let i = 0; i < weights.length; i++) {
+        const bin = first + i
+        sum += weights[i]! * (real[bin]! * real[bin]! + imag[bin]! * imag[bin]!)
+      }
+      logMel[band] = Math.log(sum + 1e-10)
+    })
+
+    // DCT-II of the log mel energies, skipping c0 (overall level)
+    const features = new Float64Array(FEATURE_COUNT)
+    for (let k = 0; k < FEATURE_COUNT; k++) {
+      let sum = 0
+      for (let band = 0; band < MEL_BANDS; band++) {
+        sum += logMel[band]! * Math.cos(Math.PI * (k + 1) * (band + 0.5) / MEL_BANDS)
+      }
+      features[k] = sum
+    }
+
+    return { features, db: 10 * Math.log10(energy / this.frameSize + 1e-12) }
+  }
+}
+
+/**
+ * In-place radix-2 FFT (length must be a power of two)
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j]!, real[i]!]
+      ;[imag[i], imag[j]] = [imag[j]!, imag[i]!]
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size
+    for (let i = 0; i < n; i += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = i + k
+        const b = a + size / 2
+        const tr = real[b]! * cos - imag[b]! * sin
+        const ti = real[b]! * sin + imag[b]! * cos
+        real[b] = real[a]! - tr
+        imag[b] = imag[a]! - ti
+        real[a] = real[a]! + tr
+        imag[a] = imag[a]! + ti
+      }
+    }
+  }
+}
+
+/**
+ * Convert interleaved 16-bit PCM to mono samples in [-1, 1]
+ */
+function toMono(data: Buffer, channels: number): Float64Array {
+  const frameBytes = 2 * channels
+  const frames = Math.floor(data.length / frameBytes)
+  const samples = new Float64Array(frames)
+  for (let i = 0; i < frames; i++) {
+    let sum = 0
+    for (let ch = 0; ch < channels; ch++) {
+      sum += data.readInt16LE(i * frameBytes + ch * 2)
+    }
+    samples[i] = sum / channels / 32768
+  }
+  return samples
+}
+
+/**
+ * Subtract the per-coefficient mean so matching ignores channel coloring
+ */
+function normalize(frames: FeatureFrame[]): Float64Array[] {
+  const mean = new Float64Array(FEATURE_COUNT)
+  for (const frame of frames) {
+    for (let k = 0; k < FEATURE_COUNT; k++) {
+      mean[k]! += frame.features[k]! / frames.length
+    }
+  }
+  return frames.map(frame => frame.features.map((value, k) => value - mean[k]!))
+}
+
+/**
+ * Dynamic time warping distance within a diagonal band
+ * @returns Average frame distance along the best path
+ */
+function dtwDistance(a: Float64Array[], b: Float64Array[]): number {
+  const n = a.length
+  const m = b.length
+  const radius = Math.max(2, Math.round(Math.max(n, m) * 0.2))
+  let previous = new Float64Array(m + 1).fill(Infinity)
+  let previousSteps = new Float64Array(m + 1)
+  let current = new Float64Array(m + 1)
+  let currentSteps = new Float64Array(m + 1)
+  previous[0] = 0
+
+  for (let i = 1; i <= n; i++) {
+    current.fill(Infinity)
+    const center = Math.round(i * m / n)
+    for (let j = Math.max(1, center - radius); j <= Math.min(m, center + radius); j++) {
+      let distance = 0
+      for (let k = 0; k < FEATURE_COUNT; k++) {
+        const diff = a[i - 1]![k]! - b[j - 1]![k]!
+        distance += diff * diff
+      }
+      distance = Math.sqrt(distance / FEATURE_COUNT)
+
+      // Diagonal, vertical and horizontal steps
+      let best = previous[j - 1]!
+      let steps = previousSteps[j - 1]!
+      if (previous[j]! < best) {
+        best = previous[j]!
+        steps = previousSteps[j]!
+      }
+      if (current[j - 1]! < best) {
+        best = current[j - 1]!
+        steps = currentSteps[j - 1]!
+      }
+      current[j] = best + distance
+      currentSteps[j] = steps + 1
+    }
+    ;[previous, current] = [current, previous]
+    ;[previousSteps, currentSteps] = [currentSteps, previousSteps]
+  }
+
+  return previousSteps[m]! > 0 ? previous[m]! / previousSteps[m]! : Infinity
+}
+
+/**
+ * Wake word detector for one stream
+ */
+class TemplateWakeWordDetector implements WakeWordDetector {
+  private templates: Template[]
+  private channels: number
+  private threshold: number
+  private hopFrames: number
+  private silenceDb: number
+  private extractor: FeatureExtractor
+  private history: FeatureFrame[] = []
+  private historyLimit: number
+  private framesSinceMatch = 0
+
+  constructor(header: PcmHeader, templates: Template[], settings: Required<Omit<TemplateWakeWordOptions, 'name'>>) {
+    this.templates = templates
+    this.channels = Math.max(1, header.channels)
+    this.threshold = settings.threshold
+    this.hopFrames = Math.max(1, Math.round(settings.hopMs / FRAME_HOP_MS))
+    this.silenceDb = settings.silenceDb
+    this.extractor = new FeatureExtractor(header.sample_rate)
+    this.historyLimit = Math.max(1, ...templates.map(template => template.features.length))
+  }
+
+  process(chunk: Buffer): WakeWordDetection | null {
+    const frames = this.extractor.process(toMono(chunk, this.channels))
+    let detection: WakeWordDetection | null = null
+
+    for (const frame of frames) {
+      this.history.push(frame)
+      if (this.history.length > this.historyLimit) {
+        this.history.shift()
+      }
+
+      this.framesSinceMatch++
+      if (this.framesSinceMatch < this.hopFrames) {
+        continue
+      }
+      this.framesSinceMatch = 0
+
+      const match = this.match()
+      if (match && match.confidence > (detection?.confidence ?? 0)) {
+        detection = match
+      }
+    }
+
+    return detection
+  }
+
+  reset(): void {
+    this.extractor.reset()
+    this.history = []
+    this.framesSinceMatch = 0
+  }
+
+  private match(): WakeWordDetection | null {
+    let best: WakeWordDetection | null = null
+
+    for (const template of this.templates) {
+      const length = template.features.length
+      if (this.history.length < length) {
+        continue
+      }
+
+      const recent = this.history.slice(-length)
+      if (!recent.some(frame => frame.db > this.silenceDb)) {
+        continue
+      }
+
+      const confidence = Math.exp(-dtwDistance(normalize(recent), template.features) / DISTANCE_SCALE)
+      if (confidence >= this.threshold && confidence > (best?.confidence ?? 0)) {
+        best = { keyword: template.keyword, confidence }
+      }
+    }
+
+    return best
+  }
+}
+
+/**
+ * Template Wake Word Plugin
+ * Compares recent audio with recordings of the keyword using MFCC features and dynamic
+ * time warping. It needs no model, which makes it suitable for tests and fixed phrases
+ * from a known speaker; use a trained detector for production wake words.
+ */
+export class TemplateWakeWordPlugin implements WakeWordPlugin {
+  readonly name: string
+  private templates: WakeWordTemplate[]
+  private settings: Required<Omit<TemplateWakeWordOptions, 'name'>>
+  private prepared: Map<number, Template[]> = new Map()
+
+  constructor(templates: WakeWordTemplate[], options: TemplateWakeWordOptions = {}) {
+    if (templates.length === 0) {
+      throw new Error('TemplateWakeWordPlugin needs at least one template')
+    }
+    this.name = options.name ?? 'template'
+    this.templates = templates
+    this.settings = {
+      threshold: options.threshold ?? 0.5,
+      hopMs: options.hopMs ?? 50,
+      silenceDb: options.silenceDb ?? -50
+    }
+  }
+
+  createDetector(header: PcmHeader): WakeWordDetector {
+    return new TemplateWakeWordDetector(header, this.getTemplates(header.sample_rate), this.settings)
+  }
+
+  /**
+   * Template features at a stream's sample rate (computed once per rate)
+   */
+  private getTemplates(sampleRate: number): Template[] {
+    const cached = this.prepared.get(sampleRate)
+    if (cached) {
+      return cached
+    }
+
+    const templates = this.templates.map((template) => {
+      const channels = Math.max(1, template.channels ?? 1)
+      const audio = resamplePcm16(template.audio, template.sampleRate, sampleRate, { channels })
+      const frames = new FeatureExtractor(sampleRate).process(toMono(audio, channels))
+
+      const loudest = Math.max(...frames.map(frame => frame.db))
+      const first = frames.findIndex(frame => frame.db > loudest - TRIM_DB)
+      const last = frames.length - 1 - [...frames].reverse().findIndex(frame => frame.db > loudest - TRIM_DB)
+      // A template with no frame above the silence level has nothing to match
+      const trimmed = first === -1 || loudest <= this.settings.silenceDb ? [] : frames.slice(first, last + 1)
+      if (trimmed.length === 0) {
+        throw new Error(`Wake word template "${template.keyword}" is empty`)
+      }
+
+      return { keyword: template.keyword, features: normalize(trimmed) }
+    })
+
+    this.prepared.set(sampleRate, templates)
+    return templates
+  }
+}
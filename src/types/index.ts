@@ -1,3 +1,13 @@
+import type { SampleBuffer } from '../core/audio-buffer.js'
+
+/**
+ * Uplink audio codec, declared in the PCM1 header `reserved` field
+ * - 'pcm': Uncompressed PCM (0)
+ * - 'ima_adpcm': IMA ADPCM blocks of frame_samps samples per channel (1)
+ * - 'opus': One Opus packet per binary message (2)
+ */
+export type AudioCodec = 'pcm' | 'ima_adpcm' | 'opus'
+
 /**
  * Custom PCM1 header format used for audio streaming
  * 16 bytes total header size
@@ -13,8 +23,10 @@ export interface PcmHeader {
   bits: number
   /** Number of samples per frame chunk (typically 320 for 20ms@16kHz) */
   frame_samps: number
-  /** Reserved bytes (typically 0) */
+  /** Reserved bytes (typically 0); carries the codec id */
   reserved: number
+  /** Codec declared by `reserved` (undefined if the id is unknown) */
+  codec?: AudioCodec
 }
 
 /**
@@ -23,16 +35,45 @@ export interface PcmHeader {
 export interface StreamingSession {
   /** Unique session identifier */
   sessionId: string
-  /** Accumulated audio data chunks */
-  dataChunks: Buffer[]
-  /** Session start timestamp */
+  /** Captured audio, allocated when the header arrives */
+  audio: SampleBuffer | null
+  /** Audio chunks captured */
+  chunkCount: number
+  /** Session start timestamp (reset by the header while no audio is captured) */
   startTime: number
-  /** Total bytes received */
+  /** Total bytes captured */
   totalBytes: number
   /** Parsed PCM header */
   header: PcmHeader | null
   /** Optional conversation ID for database linking */
   conversationId?: string
+  /** Authenticated user ID */
+  userId?: string
+  /** Plugin attempts made while processing the utterance */
+  attempts?: PluginAttempt[]
+}
+
+/**
+ * Pipeline stage, as named in metrics, logs and `error` events
+ */
+export type PipelineStage = 'transcription' | 'generation' | 'synthesis' | 'playback'
+
+/**
+ * One call to a pipeline plugin made by a composite plugin
+ */
+export interface PluginAttempt {
+  /** Stage the call belongs to */
+  stage: PipelineStage
+  /** Name of the plugin that was called */
+  plugin: string
+  /** Attempt number for this plugin, starting at 1 */
+  attempt: number
+  /** Whether the call produced a result */
+  ok: boolean
+  /** Call duration in milliseconds */
+  durationMs: number
+  /** Failure reason ('timeout', 'null result' or the error message) */
+  error?: string
 }
 
 /**
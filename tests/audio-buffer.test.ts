@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { PreRollBuffer, SampleBuffer, getDurationBytes, getFrameBytes } from '../src/core/audio-buffer.js'
+
+const mono16k = { sample_rate: 16000, channels: 1, bits: 16 }
+const stereo8k = { sample_rate: 8000, channels: 2, bits: 16 }
+
+/** 16-bit samples counting up from start, so order and alignment are easy to check */
+function ramp(samples: number, start = 0): Buffer {
+  const out = Buffer.alloc(samples * 2)
+  for (let i = 0; i < samples; i++) {
+    out.writeInt16LE((start + i) % 32768, i * 2)
+  }
+  return out
+}
+
+function samplesOf(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2))
+}
+
+describe('frame sizing', () => {
+  it('sizes frames and durations from the format', () => {
+    expect(getFrameBytes(mono16k)).toBe(2)
+    expect(getFrameBytes(stereo8k)).toBe(4)
+    expect(getFrameBytes({ channels: 1, bits: 8 })).toBe(1)
+    expect(getDurationBytes(mono16k, 100)).toBe(3200)
+    expect(getDurationBytes(stereo8k, 10)).toBe(320)
+  })
+})
+
+describe('SampleBuffer', () => {
+  it('preallocates for a duration capped by maxBytes', () => {
+    expect(SampleBuffer.forDuration(mono16k, 1000).capacity).toBe(32000)
+    expect(SampleBuffer.forDuration(mono16k, 1000, 1001).capacity).toBe(1000)
+  })
+
+  it('appends chunks and reports frames and duration', () => {
+    const buffer = SampleBuffer.forDuration(mono16k, 100)
+    expect(buffer.append(ramp(800))).toBe(true)
+    expect(buffer.append(ramp(800, 800))).toBe(true)
+    expect(buffer.byteLength).toBe(3200)
+    expect(buffer.frames).toBe(1600)
+    expect(buffer.durationMs).toBe(100)
+    expect(samplesOf(buffer.view(799, 801))).toEqual([799, 800])
+  })
+
+  it('writes nothing when a chunk does not fit', () => {
+    const buffer = new SampleBuffer(mono16k, 10)
+    expect(buffer.append(ramp(4))).toBe(true)
+    expect(buffer.append(ramp(2))).toBe(false)
+    expect(buffer.byteLength).toBe(8)
+  })
+
+  it('exposes only whole frames until a split frame is completed', () => {
+    const buffer = new SampleBuffer(stereo8k, 64)
+    const frames = ramp(6)
+    buffer.append(frames.subarray(0, 5))
+    expect(buffer.frames).toBe(1)
+    expect(buffer.view().length).toBe(4)
+
+    buffer.append(frames.subarray(5))
+    expect(buffer.frames).toBe(3)
+    expect(samplesOf(buffer.view())).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('returns views that share memory with the buffer', () => {
+    const buffer = new SampleBuffer(mono16k, 8)
+    buffer.append(ramp(4))
+    const view = buffer.view()
+    view.writeInt16LE(-1, 0)
+    expect(buffer.view().readInt16LE(0)).toBe(-1)
+  })
+
+  it('keeps its storage across reset', () => {
+    const buffer = new SampleBuffer(mono16k, 8)
+    buffer.append(ramp(4))
+    buffer.reset()
+    expect(buffer.byteLength).toBe(0)
+    expect(buffer.capacity).toBe(8)
+    expect(buffer.append(ramp(4, 10))).toBe(true)
+    expect(samplesOf(buffer.view())).toEqual([10, 11, 12, 13])
+  })
+})
+
+describe('PreRollBuffer', () => {
+  it('returns everything written while under capacity', () => {
+    const preRoll = new PreRollBuffer(mono16k, 10)
+    preRoll.write(ramp(50))
+    preRoll.write(ramp(50, 50))
+    expect(samplesOf(preRoll.read())).toEqual(samplesOf(ramp(100)))
+  })
+
+  it('keeps only the most recent audio once it wraps', () => {
+    const preRoll = new PreRollBuffer(mono16k, 10)
+    for (let start = 0; start < 1000; start += 70) {
+      preRoll.write(ramp(70, start))
+    }
+    // 15 chunks of 70 samples; the ring holds the last 160
+    expect(preRoll.byteLength).toBe(320)
+    expect(samplesOf(preRoll.read())).toEqual(samplesOf(ramp(160, 1050 - 160)))
+  })
+
+  it('keeps the tail of a chunk larger than the ring', () => {
+    const preRoll = new PreRollBuffer(mono16k, 10)
+    preRoll.write(ramp(1000))
+    expect(samplesOf(preRoll.read())).toEqual(samplesOf(ramp(160, 840)))
+  })
+
+  it('starts reads on a frame boundary after overwriting part of a frame', () => {
+    // 1 ms of 8 kHz stereo is 8 frames (32 bytes)
+    const preRoll = new PreRollBuffer(stereo8k, 1)
+    const stream = ramp(42)
+    preRoll.write(stream.subarray(0, 5))
+    preRoll.write(stream.subarray(5, 83))
+
+    // The ring holds bytes 51-82; byte 51 ends a frame, so the read starts at byte 52
+    const audio = preRoll.read()
+    expect(audio.length).toBe(31)
+    expect(samplesOf(audio.subarray(0, 28))).toEqual(samplesOf(ramp(14, 26)))
+  })
+
+  it('drops held audio on clear', () => {
+    const preRoll = new PreRollBuffer(mono16k, 10)
+    preRoll.write(ramp(100))
+    preRoll.clear()
+    expect(preRoll.byteLength).toBe(0)
+    expect(preRoll.read().length).toBe(0)
+    preRoll.write(ramp(2, 7))
+    expect(samplesOf(preRoll.read())).toEqual([7, 8])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { IncomingMessage } from 'http'
+import { HmacAuthProvider, StaticAuthProvider, extractUpgradeToken } from '../src/core/auth.js'
+
+const message = (token: string) => ({ token, source: 'message' as const })
+
+describe('HmacAuthProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accepts a token it signed', () => {
+    const provider = new HmacAuthProvider({ secret: 'secret' })
+    const result = provider.authenticate(message(provider.sign('kitchen', 60_000)))
+    expect(result).toMatchObject({ userId: 'kitchen', deviceId: 'kitchen' })
+    expect(result?.claims?.expiresAt).toEqual(expect.any(Number))
+  })
+
+  it('rejects expired tokens after the clock skew', () => {
+    vi.useFakeTimers()
+    const provider = new HmacAuthProvider({ secret: 'secret', clockSkewMs: 10_000 })
+    const token = provider.sign('kitchen', 60_000)
+
+    vi.advanceTimersByTime(65_000)
+    expect(provider.authenticate(message(token))).not.toBeNull()
+    vi.advanceTimersByTime(10_000)
+    expect(provider.authenticate(message(token))).toBeNull()
+  })
+
+  it('rejects tampered tokens', () => {
+    const provider = new HmacAuthProvider({ secret: 'secret' })
+    const [deviceId, expiresAt, signature] = provider.sign('kitchen', 60_000).split('.') as [string, string, string]
+
+    expect(provider.authenticate(message(`garage.${expiresAt}.${signature}`))).toBeNull()
+    expect(provider.authenticate(message(`${deviceId}.${Number(expiresAt) + 3600}.${signature}`))).toBeNull()
+    expect(provider.authenticate(message(`${deviceId}.${expiresAt}.${signature.slice(0, -1)}`))).toBeNull()
+    expect(provider.authenticate(message(`${deviceId}.${expiresAt}.${signature}x`))).toBeNull()
+  })
+
+  it('rejects tokens signed with another secret or malformed', () => {
+    const provider = new HmacAuthProvider({ secret: 'secret' })
+    const other = new HmacAuthProvider({ secret: 'other' })
+    expect(provider.authenticate(message(other.sign('kitchen', 60_000)))).toBeNull()
+    expect(provider.authenticate(message('kitchen'))).toBeNull()
+    expect(provider.authenticate(message('kitchen.soon.abc'))).toBeNull()
+    expect(provider.authenticate(message('a.b.c.d'))).toBeNull()
+  })
+
+  it('refuses device IDs that cannot be encoded', () => {
+    const provider = new HmacAuthProvider({ secret: 'secret' })
+    expect(() => provider.sign('living.room', 60_000)).toThrow()
+    expect(() => provider.sign('', 60_000)).toThrow()
+  })
+})
+
+describe('StaticAuthProvider', () => {
+  it('maps known tokens to users', () => {
+    const provider = new StaticAuthProvider({
+      alpha: 'alice',
+      beta: { userId: 'bob', deviceId: 'garage' }
+    })
+    expect(provider.authenticate(message('alpha'))).toEqual({ userId: 'alice' })
+    expect(provider.authenticate(message('beta'))).toEqual({ userId: 'bob', deviceId: 'garage' })
+    expect(provider.authenticate(message('gamma'))).toBeNull()
+  })
+
+  it('accepts a Map', () => {
+    const provider = new StaticAuthProvider(new Map([['alpha', 'alice']]))
+    expect(provider.authenticate(message('alpha'))).toEqual({ userId: 'alice' })
+  })
+})
+
+describe('extractUpgradeToken', () => {
+  const request = (url: string, headers: Record<string, string> = {}) => ({ url, headers }) as unknown as IncomingMessage
+
+  it('prefers the header and strips the Bearer prefix', () => {
+    expect(extractUpgradeToken(request('/pcm/stream?token=query', { authorization: 'Bearer header' }))).toBe('header')
+    expect(extractUpgradeToken(request('/pcm/stream?token=query'))).toBe('query')
+  })
+
+  it('uses the configured names', () => {
+    expect(extractUpgradeToken(request('/pcm/stream?key=query'), 'key')).toBe('query')
+    expect(extractUpgradeToken(request('/pcm/stream', { 'x-device-token': 'header' }), 'token', 'X-Device-Token')).toBe('header')
+    expect(extractUpgradeToken(request('/pcm/stream'))).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { ChannelMixer } from '../src/core/channels.js'
+import { UplinkProcessor } from '../src/core/uplink.js'
+import type { PcmHeader } from '../src/types/index.js'
+
+const RATE = 16000
+
+/** Speech-like bursts: 100 ms of tone, then 100 ms of near silence */
+function bursts(frames: number): number[] {
+  return Array.from({ length: frames }, (_, i) => {
+    const voiced = Math.floor(i / (RATE / 10)) % 2 === 0
+    return voiced ? Math.round(8000 * Math.sin(2 * Math.PI * 300 * i / RATE)) : (i % 7) - 3
+  })
+}
+
+/** Steady noise with no quiet stretches */
+function hiss(frames: number, level = 2000): number[] {
+  let state = 12345
+  return Array.from({ length: frames }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff
+    return Math.round((state / 0x7fffffff * 2 - 1) * level)
+  })
+}
+
+function interleave(...channels: number[][]): Buffer {
+  const frames = channels[0]!.length
+  const out = Buffer.alloc(frames * channels.length * 2)
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((samples, ch) => out.writeInt16LE(samples[i]!, (i * channels.length + ch) * 2))
+  }
+  return out
+}
+
+function mono(samples: number[]): Buffer {
+  return interleave(samples)
+}
+
+/** Feed a mixer in 20 ms chunks and collect everything it emits, including the flush */
+function run(mixer: ChannelMixer, audio: Buffer, chunkBytes = RATE / 50 * mixer.channels * 2): Buffer {
+  const parts: Buffer[] = []
+  for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+    parts.push(mixer.process(audio.subarray(offset, offset + chunkBytes)))
+  }
+  parts.push(mixer.flush())
+  return Buffer.concat(parts)
+}
+
+describe('ChannelMixer', () => {
+  it('keeps the channel with the best SNR for the whole utterance', () => {
+    const speech = bursts(RATE / 2)
+    const mixer = new ChannelMixer(2, 'best_snr', { sampleRate: RATE })
+
+    expect(run(mixer, interleave(hiss(speech.length), speech)).equals(mono(speech))).toBe(true)
+    expect(mixer.getSelectedChannel()).toBe(1)
+  })
+
+  it('holds audio until the decision window fills', () => {
+    const mixer = new ChannelMixer(2, 'best_snr', { sampleRate: RATE, decisionMs: 100 })
+    const speech = bursts(RATE / 5)
+    const audio = interleave(hiss(speech.length), speech)
+
+    // 60 ms is held, 120 ms releases everything on the chosen channel
+    expect(mixer.process(audio.subarray(0, RATE * 0.06 * 4)).length).toBe(0)
+    expect(mixer.getSelectedChannel()).toBeNull()
+    expect(mixer.process(audio.subarray(RATE * 0.06 * 4, RATE * 0.12 * 4)).equals(mono(speech.slice(0, RATE * 0.12)))).toBe(true)
+    expect(mixer.getSelectedChannel()).toBe(1)
+  })
+
+  it('decides on held audio at flush', () => {
+    const mixer = new ChannelMixer(2, 'best_snr', { sampleRate: RATE })
+    const speech = bursts(RATE / 5)
+    expect(mixer.process(interleave(speech, hiss(speech.length))).length).toBe(0)
+    expect(mixer.flush().equals(mono(speech))).toBe(true)
+    expect(mixer.getSelectedChannel()).toBe(0)
+  })
+
+  it('keeps the previous channel through a window without speech', () => {
+    const mixer = new ChannelMixer(2, 'best_snr', { sampleRate: RATE, decisionMs: 200 })
+    const speech = bursts(RATE / 5)
+    run(mixer, interleave(hiss(speech.length), speech))
+    expect(mixer.getSelectedChannel()).toBe(1)
+
+    // The next utterance opens with steady noise on both channels, then speech on channel 0
+    mixer.restart(false)
+    const noise = hiss(speech.length, 500)
+    mixer.process(interleave(noise, noise))
+    expect(mixer.getSelectedChannel()).toBe(1)
+    mixer.process(interleave(speech, hiss(speech.length)))
+    expect(mixer.getSelectedChannel()).toBe(0)
+  })
+
+  it('averages all channels with downmix', () => {
+    const mixer = new ChannelMixer(3, 'downmix', { sampleRate: RATE })
+    const output = mixer.process(interleave([300, -300, 1], [0, -600, 1], [-300, 300, 2]))
+    expect([0, 1, 2].map((i) => output.readInt16LE(i * 2))).toEqual([0, -200, 1])
+    expect(mixer.getSelectedChannel()).toBeNull()
+  })
+
+  it('clamps a fixed channel to the input', () => {
+    const left = [1, 2, 3]
+    const right = [4, 5, 6]
+    expect(new ChannelMixer(2, { channel: 0 }, { sampleRate: RATE }).process(interleave(left, right)).equals(mono(left))).toBe(true)
+
+    const clamped = new ChannelMixer(2, { channel: 5 }, { sampleRate: RATE })
+    expect(clamped.getSelectedChannel()).toBe(1)
+    expect(clamped.process(interleave(left, right)).equals(mono(right))).toBe(true)
+  })
+
+  it('carries partial frames into the next chunk', () => {
+    const mixer = new ChannelMixer(2, { channel: 1 }, { sampleRate: RATE })
+    const audio = interleave([10, 20, 30], [-10, -20, -30])
+    const parts = [mixer.process(audio.subarray(0, 3)), mixer.process(audio.subarray(3, 9)), mixer.process(audio.subarray(9))]
+    expect(parts.map((part) => part.length)).toEqual([0, 4, 2])
+    expect(Buffer.concat(parts).equals(mono([-10, -20, -30]))).toBe(true)
+  })
+
+  it('drops held audio on restart', () => {
+    const mixer = new ChannelMixer(2, 'best_snr', { sampleRate: RATE })
+    const speech = bursts(RATE / 10)
+    mixer.process(interleave(speech, hiss(speech.length)))
+    mixer.restart()
+    expect(mixer.flush().length).toBe(0)
+  })
+})
+
+describe('UplinkProcessor channel policy', () => {
+  const stereo48k: PcmHeader = { sample_rate: 48000, channels: 2, bits: 16, reserved: 0, frame_samps: 960 }
+
+  it('reduces to mono before resampling', () => {
+    const processor = new UplinkProcessor(stereo48k, { channelPolicy: 'best_snr', sampleRate: RATE })
+    expect(processor.header).toMatchObject({ sample_rate: RATE, channels: 1, frame_samps: 320 })
+    expect(processor.inputHeader.channels).toBe(2)
+
+    const frames = 48000 / 2
+    const speech = Array.from({ length: frames }, (_, i) => {
+      return Math.floor(i / 4800) % 2 === 0 ? Math.round(8000 * Math.sin(2 * Math.PI * 300 * i / 48000)) : 0
+    })
+    const audio = interleave(hiss(frames), speech)
+    const parts: Buffer[] = []
+    for (let offset = 0; offset < audio.length; offset += 3840) {
+      parts.push(processor.process(audio.subarray(offset, offset + 3840)))
+    }
+    parts.push(processor.flush())
+
+    expect(processor.getSelectedChannel()).toBe(1)
+    expect(Math.abs(Buffer.concat(parts).length / 2 - frames / 3)).toBeLessThanOrEqual(2)
+  })
+
+  it('chooses the policy per device', () => {
+    const config = { channelPolicy: (deviceId: string | undefined) => deviceId === 'array' ? { channel: 1 } : undefined }
+    expect(new UplinkProcessor(stereo48k, config, 'array').header.channels).toBe(1)
+    expect(new UplinkProcessor(stereo48k, config, 'headset').header.channels).toBe(2)
+    expect(new UplinkProcessor(stereo48k, config).isActive()).toBe(false)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_ADPCM_BLOCK_SAMPLES,
+  ImaAdpcmDecoder,
+  createFrameDecoder,
+  encodeImaAdpcm,
+  getAdpcmBlockSize
+} from '../src/core/codecs.js'
+
+function tone(frames: number, channels = 1): Buffer {
+  const out = Buffer.alloc(frames * channels * 2)
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const value = 8000 * Math.sin(2 * Math.PI * 300 * (ch + 1) * i / 16000) +
+        3000 * Math.sin(2 * Math.PI * 1700 * i / 16000)
+      out.writeInt16LE(Math.round(value), (i * channels + ch) * 2)
+    }
+  }
+  return out
+}
+
+/** Signal-to-error ratio of a round trip, in dB */
+function roundTripSnrDb(original: Buffer, decoded: Buffer): number {
+  const samples = Math.min(original.length, decoded.length) / 2
+  let signal = 0
+  let error = 0
+  for (let i = 0; i < samples; i++) {
+    const sample = original.readInt16LE(i * 2)
+    signal += sample * sample
+    error += (sample - decoded.readInt16LE(i * 2)) ** 2
+  }
+  return 10 * Math.log10(signal / error)
+}
+
+describe('IMA ADPCM', () => {
+  it('sizes blocks like WAV format 0x11', () => {
+    expect(getAdpcmBlockSize(1, 505)).toBe(256)
+    expect(getAdpcmBlockSize(2, 505)).toBe(512)
+    expect(getAdpcmBlockSize(1, 9)).toBe(8)
+  })
+
+  it('round-trips mono audio', () => {
+    const pcm = tone(DEFAULT_ADPCM_BLOCK_SAMPLES * 8)
+    const encoded = encodeImaAdpcm(pcm)
+    expect(encoded.length).toBe(8 * 256)
+
+    const decoded = new ImaAdpcmDecoder({ sampleRate: 16000, channels: 1, frameSamps: 0 }).decode(encoded)
+    expect(decoded.length).toBe(pcm.length)
+    // The first sample of each block is stored verbatim
+    expect(decoded.readInt16LE(0)).toBe(pcm.readInt16LE(0))
+    // 4-bit IMA ADPCM keeps roughly 20-30 dB on tonal audio
+    expect(roundTripSnrDb(pcm, decoded)).toBeGreaterThan(25)
+  })
+
+  it('round-trips interleaved stereo', () => {
+    const pcm = tone(256 * 4, 2)
+    const encoded = encodeImaAdpcm(pcm, 2, 256)
+    const decoded = new ImaAdpcmDecoder({ sampleRate: 16000, channels: 2, frameSamps: 256 }).decode(encoded)
+    expect(decoded.length).toBe(pcm.length)
+    expect(roundTripSnrDb(pcm, decoded)).toBeGreaterThan(20)
+  })
+
+  it('keeps partial blocks until the rest arrives', () => {
+    const pcm = tone(DEFAULT_ADPCM_BLOCK_SAMPLES * 3)
+    const encoded = encodeImaAdpcm(pcm)
+    const whole = new ImaAdpcmDecoder({ sampleRate: 16000, channels: 1, frameSamps: 0 }).decode(encoded)
+
+    const decoder = new ImaAdpcmDecoder({ sampleRate: 16000, channels: 1, frameSamps: 0 })
+    expect(decoder.decode(encoded.subarray(0, 100)).length).toBe(0)
+    const parts = [decoder.decode(encoded.subarray(100, 300)), decoder.decode(encoded.subarray(300))]
+    expect(Buffer.concat(parts).equals(whole)).toBe(true)
+  })
+
+  it('drops a partial block on reset', () => {
+    const encoded = encodeImaAdpcm(tone(DEFAULT_ADPCM_BLOCK_SAMPLES))
+    const decoder = new ImaAdpcmDecoder({ sampleRate: 16000, channels: 1, frameSamps: 0 })
+    decoder.decode(encoded.subarray(0, 10))
+    decoder.reset()
+    expect(decoder.decode(encoded).length).toBe(DEFAULT_ADPCM_BLOCK_SAMPLES * 2)
+  })
+
+  it('pads a partial last block with silence', () => {
+    const encoded = encodeImaAdpcm(tone(600))
+    expect(encoded.length).toBe(2 * 256)
+  })
+})
+
+describe('createFrameDecoder', () => {
+  const format = { sampleRate: 16000, channels: 1, frameSamps: 320 }
+
+  it('builds the IMA ADPCM decoder and needs a factory for Opus', () => {
+    expect(createFrameDecoder('ima_adpcm', format)).toBeInstanceOf(ImaAdpcmDecoder)
+    expect(createFrameDecoder('opus', format)).toBeNull()
+  })
+
+  it('prefers a configured factory', () => {
+    const custom = { decode: (data: Buffer) => data }
+    expect(createFrameDecoder('opus', format, { opus: () => custom })).toBe(custom)
+    expect(createFrameDecoder('ima_adpcm', format, { ima_adpcm: () => custom })).toBe(custom)
+  })
+})
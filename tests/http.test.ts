@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { createAdminHandler, type AdminConfig } from '../src/core/http.js'
+
+interface Reply {
+  status?: number
+  body?: string
+}
+
+/** Run one GET request through the admin handler with a given client address */
+function get(config: AdminConfig, url: string, remoteAddress: string, authorization?: string): Reply & { handled: boolean } {
+  const reply: Reply = {}
+  const req = {
+    method: 'GET',
+    url,
+    headers: authorization ? { authorization } : {},
+    socket: { remoteAddress }
+  } as unknown as IncomingMessage
+  const res = {
+    writeHead: (status: number) => { reply.status = status },
+    end: (body: string) => { reply.body = body }
+  } as unknown as ServerResponse
+
+  const handler = createAdminHandler({
+    isReady: () => true,
+    getSessionsView: () => ({ sessions: [] }),
+    getMetrics: () => 'sessions_active 0\n'
+  }, config)
+  return { handled: handler(req, res), ...reply }
+}
+
+describe('admin endpoints', () => {
+  it('serves health checks to everyone', () => {
+    expect(get({}, '/healthz', '192.168.1.20').status).toBe(200)
+    expect(get({ token: 'secret' }, '/readyz', '192.168.1.20').status).toBe(200)
+  })
+
+  it('serves sessions and metrics only to loopback clients without a token', () => {
+    for (const path of ['/sessions', '/metrics']) {
+      expect(get({}, path, '192.168.1.20')).toMatchObject({ status: 403, body: '{"error":"forbidden"}' })
+      expect(get({}, path, '::ffff:10.0.0.5').status).toBe(403)
+      expect(get({}, path, '127.0.0.1').status).toBe(200)
+      expect(get({}, path, '::ffff:127.0.0.1').status).toBe(200)
+      expect(get({}, path, '::1').status).toBe(200)
+    }
+    expect(get({}, '/sessions', '127.0.0.1').body).toBe('{"sessions":[]}')
+  })
+
+  it('requires the bearer token when one is set', () => {
+    const config = { token: 'secret' }
+    for (const path of ['/sessions', '/metrics']) {
+      expect(get(config, path, '192.168.1.20').status).toBe(401)
+      expect(get(config, path, '127.0.0.1').status).toBe(401)
+      expect(get(config, path, '192.168.1.20', 'Bearer wrong!').status).toBe(401)
+      expect(get(config, path, '192.168.1.20', 'Bearer secret-and-more').status).toBe(401)
+      expect(get(config, path, '192.168.1.20', 'Bearer secret').status).toBe(200)
+    }
+  })
+
+  it('serves endpoints under basePath only', () => {
+    expect(get({ basePath: '/admin/' }, '/sessions', '127.0.0.1')).toMatchObject({ handled: true, status: 404 })
+    expect(get({ basePath: '/admin/' }, '/admin/sessions', '127.0.0.1').status).toBe(200)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { StreamResampler, resamplePcm16 } from '../src/core/resampler.js'
+
+function sine(rate: number, hz: number, ms: number, amplitude = 10000, channels = 1): Buffer {
+  const frames = Math.round(rate * ms / 1000)
+  const out = Buffer.alloc(frames * channels * 2)
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      // Each channel gets its own frequency so channel mixing would show up
+      const value = Math.round(amplitude * Math.sin(2 * Math.PI * hz * (ch + 1) * i / rate))
+      out.writeInt16LE(value, (i * channels + ch) * 2)
+    }
+  }
+  return out
+}
+
+/** RMS of one channel, skipping the filter's edges */
+function rms(pcm: Buffer, channels = 1, channel = 0, skip = 200): number {
+  const frames = pcm.length / (channels * 2)
+  let sum = 0
+  let count = 0
+  for (let i = skip; i < frames - skip; i++) {
+    const sample = pcm.readInt16LE((i * channels + channel) * 2)
+    sum += sample * sample
+    count++
+  }
+  return Math.sqrt(sum / count)
+}
+
+describe('StreamResampler', () => {
+  it('produces the same output for chunked and one-shot input', () => {
+    const input = sine(48000, 440, 500)
+    const oneShot = resamplePcm16(input, 48000, 16000)
+
+    const resampler = new StreamResampler(48000, 16000)
+    const parts: Buffer[] = []
+    // Odd chunk sizes also split samples across calls
+    for (let offset = 0, size = 1; offset < input.length; offset += size, size = size * 3 % 997 + 1) {
+      parts.push(resampler.process(input.subarray(offset, offset + size)))
+    }
+    parts.push(resampler.flush())
+
+    expect(Buffer.concat(parts).equals(oneShot)).toBe(true)
+  })
+
+  it('scales the length by the rate ratio', () => {
+    const input = sine(44100, 440, 1000)
+    const output = resamplePcm16(input, 44100, 16000)
+    expect(Math.abs(output.length / 2 - 16000)).toBeLessThanOrEqual(2)
+  })
+
+  it('keeps passband tones at their level', () => {
+    const input = sine(48000, 1000, 500)
+    const output = resamplePcm16(input, 48000, 16000)
+    const gainDb = 20 * Math.log10(rms(output) / rms(input, 1, 0, 600))
+    expect(Math.abs(gainDb)).toBeLessThan(0.5)
+  })
+
+  it('removes tones above the new Nyquist frequency instead of aliasing them', () => {
+    const input = sine(48000, 10000, 500)
+    const output = resamplePcm16(input, 48000, 16000)
+    const attenuationDb = 20 * Math.log10(rms(output) / rms(input, 1, 0, 600))
+    expect(attenuationDb).toBeLessThan(-40)
+  })
+
+  it('upsamples without changing the tone level', () => {
+    const input = sine(8000, 500, 500)
+    const output = resamplePcm16(input, 8000, 16000)
+    expect(output.length).toBe(input.length * 2)
+    const gainDb = 20 * Math.log10(rms(output) / rms(input, 1, 0, 100))
+    expect(Math.abs(gainDb)).toBeLessThan(0.5)
+  })
+
+  it('resamples interleaved channels independently', () => {
+    const input = sine(32000, 500, 500, 10000, 2)
+    const output = resamplePcm16(input, 32000, 16000, { channels: 2 })
+    const left = resamplePcm16(sine(32000, 500, 500), 32000, 16000)
+    for (let i = 0; i < left.length / 2; i++) {
+      expect(output.readInt16LE(i * 4)).toBe(left.readInt16LE(i * 2))
+    }
+    expect(rms(output, 2, 1)).toBeGreaterThan(6000)
+  })
+
+  it('passes audio through when the rates match', () => {
+    const input = sine(16000, 440, 100)
+    const resampler = new StreamResampler(16000, 16000)
+    expect(resampler.getLatencyFrames()).toBe(0)
+    expect(resampler.process(input).equals(input)).toBe(true)
+    expect(resampler.flush().length).toBe(0)
+  })
+
+  it('starts a new stream after reset', () => {
+    const input = sine(48000, 440, 200)
+    const resampler = new StreamResampler(48000, 16000)
+    resampler.process(sine(48000, 3000, 100))
+    resampler.reset()
+    const output = Buffer.concat([resampler.process(input), resampler.flush()])
+    expect(output.equals(resamplePcm16(input, 48000, 16000))).toBe(true)
+  })
+
+  it('rejects invalid sample rates', () => {
+    expect(() => new StreamResampler(0, 16000)).toThrow()
+    expect(() => new StreamResampler(16000, -1)).toThrow()
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { PipelineScheduler, type RejectReason } from '../src/core/scheduler.js'
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve))
+
+describe('PipelineScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('admits turns up to maxConcurrent and queues the rest in order', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1 })
+    const first = await scheduler.acquire('a')
+    expect(first).not.toBeNull()
+
+    const positions: Array<[string, number]> = []
+    const second = scheduler.acquire('b', { onQueued: (position) => positions.push(['b', position]) })
+    const third = scheduler.acquire('c', { onQueued: (position) => positions.push(['c', position]) })
+    expect(scheduler.getQueueDepth()).toBe(2)
+    expect(positions).toEqual([['b', 1], ['c', 2]])
+
+    first!.release()
+    const secondSlot = await second
+    expect(secondSlot?.key).toBe('b')
+    expect(positions).toContainEqual(['c', 1])
+    expect(scheduler.getActiveCount()).toBe(1)
+    expect(scheduler.getQueueDepth()).toBe(1)
+
+    secondSlot!.release()
+    expect((await third)?.key).toBe('c')
+  })
+
+  it('gives a connection one slot at a time without blocking others', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 2 })
+    const first = await scheduler.acquire('a')
+    let again: string | undefined
+    void scheduler.acquire('a').then((slot) => { again = slot?.key as string })
+    const other = await scheduler.acquire('b')
+
+    expect(other?.key).toBe('b')
+    expect(again).toBeUndefined()
+
+    first!.release()
+    await tick()
+    expect(again).toBe('a')
+  })
+
+  it('rejects new turns when the queue is full', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1, maxQueued: 1 })
+    await scheduler.acquire('a')
+    void scheduler.acquire('b')
+
+    const reasons: RejectReason[] = []
+    const rejected = await scheduler.acquire('c', { onRejected: (reason) => reasons.push(reason) })
+    expect(rejected).toBeNull()
+    expect(reasons).toEqual(['queue_full'])
+    expect(scheduler.getQueueDepth()).toBe(1)
+  })
+
+  it('sheds the oldest waiting turn with shed_oldest', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1, maxQueued: 1, overflow: 'shed_oldest' })
+    const active = await scheduler.acquire('a')
+
+    const reasons: RejectReason[] = []
+    const shed = scheduler.acquire('b', { onRejected: (reason) => reasons.push(reason) })
+    const newest = scheduler.acquire('c')
+
+    expect(await shed).toBeNull()
+    expect(reasons).toEqual(['shed'])
+
+    active!.release()
+    expect((await newest)?.key).toBe('c')
+  })
+
+  it('times out turns that wait longer than maxWaitMs', async () => {
+    vi.useFakeTimers()
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1, maxWaitMs: 1000 })
+    await scheduler.acquire('a')
+
+    const reasons: RejectReason[] = []
+    const waiting = scheduler.acquire('b', { onRejected: (reason) => reasons.push(reason) })
+    vi.advanceTimersByTime(999)
+    expect(scheduler.getQueueDepth()).toBe(1)
+    vi.advanceTimersByTime(1)
+
+    expect(await waiting).toBeNull()
+    expect(reasons).toEqual(['timeout'])
+    expect(scheduler.getQueueDepth()).toBe(0)
+  })
+
+  it('drops a waiting turn when its signal aborts', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1 })
+    const active = await scheduler.acquire('a')
+    const controller = new AbortController()
+    const waiting = scheduler.acquire('b', { signal: controller.signal })
+
+    controller.abort()
+    expect(await waiting).toBeNull()
+    expect(scheduler.getQueueDepth()).toBe(0)
+
+    active!.release()
+    expect(scheduler.getActiveCount()).toBe(0)
+  })
+
+  it('ignores a second release of the same slot', async () => {
+    const scheduler = new PipelineScheduler({ maxConcurrent: 1 })
+    const slot = await scheduler.acquire('a')
+    const second = scheduler.acquire('b')
+    void scheduler.acquire('c')
+
+    slot!.release()
+    slot!.release()
+    expect((await second)?.key).toBe('b')
+    expect(scheduler.getActiveCount()).toBe(1)
+    expect(scheduler.getQueueDepth()).toBe(1)
+  })
+
+  it('caps concurrent calls per stage', async () => {
+    const scheduler = new PipelineScheduler({ stageConcurrency: { generation: 2 } })
+    let running = 0
+    let peak = 0
+
+    await Promise.all([1, 2, 3, 4, 5].map(async (key) => {
+      const slot = await scheduler.acquire(key)
+      await slot!.runStage('generation', async () => {
+        running++
+        peak = Math.max(peak, running)
+        await tick()
+        running--
+      })
+      slot!.release()
+    }))
+
+    expect(peak).toBe(2)
+  })
+
+  it('holds the stage for a whole stream', async () => {
+    const scheduler = new PipelineScheduler({ stageConcurrency: { synthesis: 1 } })
+    const order: string[] = []
+    async function* chunks(name: string) {
+      order.push(`${name}:start`)
+      await tick()
+      yield 1
+      await tick()
+      yield 2
+      order.push(`${name}:end`)
+    }
+
+    const slots = await Promise.all([scheduler.acquire('a'), scheduler.acquire('b')])
+    await Promise.all(slots.map(async (slot, index) => {
+      const name = index === 0 ? 'a' : 'b'
+      const received: number[] = []
+      for await (const chunk of slot!.runStageStream('synthesis', () => chunks(name))) {
+        received.push(chunk)
+      }
+      expect(received).toEqual([1, 2])
+    }))
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end'])
+    expect(scheduler.getStageStats().synthesis).toEqual({ active: 0, waiting: 0 })
+  })
+
+  it('gives up a stage wait when the signal aborts', async () => {
+    const scheduler = new PipelineScheduler({ stageConcurrency: { transcription: 1 } })
+    let finish: () => void = () => {}
+    const busy = scheduler.runStage('transcription', () => new Promise<void>((resolve) => { finish = resolve }))
+
+    const controller = new AbortController()
+    const waiting = scheduler.runStage('transcription', async () => 'late', controller.signal)
+    expect(scheduler.getStageStats().transcription).toEqual({ active: 1, waiting: 1 })
+
+    controller.abort()
+    await expect(waiting).rejects.toThrow('Aborted while waiting for transcription')
+    finish()
+    await busy
+    expect(scheduler.getStageStats().transcription).toEqual({ active: 0, waiting: 0 })
+  })
+})
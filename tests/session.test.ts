@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { SessionManager, type SessionEndReason } from '../src/core/session.js'
+import type { PcmHeader } from '../src/types/index.js'
+
+const RATE = 16000
+const header: PcmHeader = { sample_rate: RATE, channels: 1, bits: 16, reserved: 0, frame_samps: 320 }
+
+/** 20 ms chunks of a 200 Hz tone, or of faint hiss when level is low */
+function chunks(ms: number, level: number): Buffer[] {
+  const out: Buffer[] = []
+  let state = 1
+  for (let start = 0; start < ms; start += 20) {
+    const chunk = Buffer.alloc(RATE / 50 * 2)
+    for (let i = 0; i < RATE / 50; i++) {
+      state = (state * 1103515245 + 12345) & 0x7fffffff
+      const hiss = (state / 0x7fffffff * 2 - 1) * 30
+      const tone = level * 32767 * Math.sin(2 * Math.PI * 200 * (start * RATE / 1000 + i) / RATE)
+      chunk.writeInt16LE(Math.round(tone + hiss), i * 2)
+    }
+    out.push(chunk)
+  }
+  return out
+}
+
+describe('SessionManager with VAD', () => {
+  it('keeps listening through more than maxDurationMs of silence before speech', () => {
+    const events: string[] = []
+    const manager = new SessionManager({ vad: {}, maxDurationMs: 1000, reapIntervalMs: 0 }, {
+      onSpeechStart: () => events.push('start'),
+      onSpeechEnd: () => events.push('end')
+    })
+    manager.createSession('s', header)
+
+    const added = [...chunks(3000, 0), ...chunks(500, 0.3), ...chunks(300, 0)]
+      .map(chunk => manager.addChunk('s', chunk))
+    expect(added.every(Boolean)).toBe(true)
+    expect(events).toEqual(['start'])
+    expect(manager.hasSpeech('s')).toBe(true)
+
+    // The utterance holds the speech and the default pre-roll (minSpeechMs + 200 ms), not the silence
+    const audioMs = manager.getAudioData('s')!.length / 2 / RATE * 1000
+    expect(audioMs).toBeGreaterThanOrEqual(500)
+    expect(audioMs).toBeLessThan(500 + 300 + 320 + 20)
+  })
+
+  it('starts capture with the configured pre-roll', () => {
+    const manager = new SessionManager({ vad: {}, preRollMs: 100, reapIntervalMs: 0 })
+    manager.createSession('s', header)
+
+    for (const chunk of chunks(1000, 0)) {
+      manager.addChunk('s', chunk)
+    }
+    expect(manager.isCapturing('s')).toBe(false)
+    expect(manager.getAudioData('s')).toBeNull()
+
+    for (const chunk of chunks(200, 0.3)) {
+      manager.addChunk('s', chunk)
+    }
+    expect(manager.isCapturing('s')).toBe(true)
+    // 100 ms pre-roll, the rest of the speech after VAD reported it
+    const audioMs = manager.getAudioData('s')!.length / 2 / RATE * 1000
+    expect(audioMs).toBeLessThanOrEqual(100 + 200)
+    expect(audioMs).toBeGreaterThan(100)
+  })
+})
+
+describe('session reaper', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /** Manager whose onEnd reasons are collected, with a 100 ms reap interval */
+  function createManager(config: ConstructorParameters<typeof SessionManager>[0] = {}) {
+    vi.useFakeTimers()
+    const ended: SessionEndReason[] = []
+    const idle: string[] = []
+    const manager = new SessionManager({ idleTimeoutMs: 1000, maxDurationMs: 2000, reapIntervalMs: 100, ...config }, {
+      onEnd: (_session, reason) => { ended.push(reason) },
+      onIdle: (session) => { idle.push(session.sessionId) }
+    })
+    return { manager, ended, idle }
+  }
+
+  /** Stream chunks every 20 ms of fake time */
+  async function stream(manager: SessionManager, ms: number, level: number): Promise<void> {
+    for (const chunk of chunks(ms, level)) {
+      manager.addChunk('s', chunk)
+      await vi.advanceTimersByTimeAsync(20)
+    }
+  }
+
+  it('ends a stream that stops sending audio', async () => {
+    const { manager, ended, idle } = createManager()
+    manager.createSession('s', header)
+    await stream(manager, 200, 0.3)
+
+    await vi.advanceTimersByTimeAsync(900)
+    expect(ended).toEqual([])
+    await vi.advanceTimersByTimeAsync(200)
+    expect(ended).toEqual(['idle'])
+    expect(idle).toEqual(['s'])
+    expect(manager.hasSession('s')).toBe(false)
+  })
+
+  it('ends a stream that runs past maxDurationMs', async () => {
+    const { manager, ended } = createManager()
+    manager.createSession('s', header)
+    await stream(manager, 1900, 0.3)
+    expect(ended).toEqual([])
+
+    await stream(manager, 300, 0.3)
+    expect(ended).toEqual(['max_duration'])
+  })
+
+  it('leaves sessions without a header alone', async () => {
+    const { manager, ended } = createManager()
+    manager.createSession('s')
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(ended).toEqual([])
+  })
+
+  it('counts a VAD stream from speech start, not from the header', async () => {
+    const { manager, ended } = createManager({ vad: {} })
+    manager.createSession('s', header)
+
+    // An always-listening device streams silence well past maxDurationMs
+    await stream(manager, 5000, 0)
+    expect(ended).toEqual([])
+
+    // Speech starts capture; the duration limit now applies to the utterance
+    await stream(manager, 1500, 0.3)
+    expect(manager.isCapturing('s')).toBe(true)
+    expect(ended).toEqual([])
+    await stream(manager, 700, 0.3)
+    expect(ended).toEqual(['max_duration'])
+  })
+
+  it('skips paused sessions and does not count the pause', async () => {
+    const { manager, ended } = createManager()
+    manager.createSession('s', header)
+    await stream(manager, 1000, 0.3)
+
+    manager.pauseSession('s')
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(ended).toEqual([])
+
+    // 1.9 s of streaming so far; the limit is reached after 2 s
+    manager.resumeSession('s')
+    await stream(manager, 900, 0.3)
+    expect(ended).toEqual([])
+    await stream(manager, 300, 0.3)
+    expect(ended).toEqual(['max_duration'])
+  })
+
+  it('stops in clearAll', async () => {
+    const { manager, ended } = createManager()
+    manager.createSession('s', header)
+    await manager.clearAll()
+    expect(ended).toEqual(['ended'])
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+import { VoiceServer, type VoiceServerConfig } from '../src/index.js'
+import { createPcmHeader } from '../src/core/pcm.js'
+import type { PipelineConfig } from '../src/plugins/index.js'
+
+type Json = Record<string, unknown>
+
+/** Client that records every frame the server sends */
+class TestClient {
+  readonly ws: WebSocket
+  /** JSON messages and binary frames in arrival order */
+  readonly frames: Array<Json | Buffer> = []
+  private waiters: Array<() => void> = []
+
+  constructor(url: string) {
+    this.ws = new WebSocket(url)
+    this.ws.on('message', (data: Buffer, isBinary: boolean) => {
+      this.frames.push(isBinary ? data : JSON.parse(data.toString('utf8')))
+      for (const wake of this.waiters.splice(0)) {
+        wake()
+      }
+    })
+  }
+
+  opened(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.ws.once('open', () => resolve())
+      this.ws.once('error', reject)
+    })
+  }
+
+  send(data: Buffer | string | Json): void {
+    this.ws.send(Buffer.isBuffer(data) || typeof data === 'string' ? data : JSON.stringify(data))
+  }
+
+  json(type?: string): Json[] {
+    return this.frames.filter((frame): frame is Json => !Buffer.isBuffer(frame) && (!type || frame.type === type))
+  }
+
+  /** Resolve with the first JSON message of a type at or after a frame index */
+  async next(type: string, from = 0, timeoutMs = 2000): Promise<Json> {
+    const deadline = Date.now() + timeoutMs
+    while (true) {
+      const found = this.frames.slice(from).find(frame => !Buffer.isBuffer(frame) && frame.type === type)
+      if (found) {
+        return found as Json
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${type}`)
+      }
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve)
+        setTimeout(resolve, 20)
+      })
+    }
+  }
+}
+
+const RATE = 16000
+const header = createPcmHeader(RATE, 1, 16, 320)
+const speech = Buffer.alloc(RATE / 10 * 2, 1)
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/** A call that only settles when its signal aborts */
+function untilAborted(signal: AbortSignal | undefined, aborted: AbortSignal[]): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => {
+      aborted.push(signal)
+      reject(new Error('aborted'))
+    }, { once: true })
+  })
+}
+
+/** Stub pipeline; set `hang` to make a stage wait for cancellation on the first turn */
+function createPipeline(hang?: 'generation' | 'synthesis') {
+  const transcribed: Buffer[] = []
+  const aborted: AbortSignal[] = []
+  let turns = 0
+  const pipeline: PipelineConfig = {
+    transcription: {
+      name: 'stub-stt',
+      transcribe: async (audio) => {
+        transcribed.push(Buffer.from(audio))
+        turns++
+        return 'hello'
+      }
+    },
+    conversation: {
+      name: 'stub-llm',
+      generate: async (_text, _context, options) => hang === 'generation' && turns === 1
+        ? untilAborted(options?.signal, aborted)
+        : 'reply'
+    },
+    synthesis: {
+      name: 'stub-tts',
+      outputFormat: 'pcm',
+      outputSampleRate: RATE,
+      synthesize: async (_text, options) => hang === 'synthesis' && turns === 1
+        ? untilAborted(options?.signal, aborted)
+        : Buffer.alloc(RATE * 2)
+    }
+  }
+  return { pipeline, transcribed, aborted }
+}
+
+let server: VoiceServer | null = null
+let http: Server | null = null
+const clients: TestClient[] = []
+
+async function start(config: Omit<VoiceServerConfig, 'websocket'>): Promise<TestClient> {
+  http = createServer()
+  await new Promise<void>((resolve) => http!.listen(0, '127.0.0.1', resolve))
+  server = new VoiceServer({ ...config, websocket: { server: http } })
+  server.start()
+
+  const client = new TestClient(`ws://127.0.0.1:${(http.address() as AddressInfo).port}/pcm/stream`)
+  clients.push(client)
+  await client.opened()
+  return client
+}
+
+/** Send one utterance: header, audio and END */
+function utterance(client: TestClient): void {
+  client.send(header)
+  client.send(speech)
+  client.send('END\0')
+}
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) {
+    client.ws.terminate()
+  }
+  await server?.stop()
+  await new Promise<void>((resolve) => http ? http.close(() => resolve()) : resolve())
+  server = null
+  http = null
+})
+
+describe('VoiceServer barge-in', () => {
+  it('aborts synthesis when a header follows END', async () => {
+    const { pipeline, transcribed, aborted } = createPipeline('synthesis')
+    const client = await start({ pipeline })
+
+    utterance(client)
+    await client.next('response')
+    const mark = client.frames.length
+    utterance(client)
+
+    expect((await client.next('response_cancelled', mark)).reason).toBe('barge_in')
+    await client.next('header_received', mark)
+    await client.next('response', mark)
+    expect(aborted).toHaveLength(1)
+
+    // The interrupting utterance is audio only, without the header in front of it
+    expect(transcribed).toHaveLength(2)
+    expect(transcribed[1]!.equals(speech)).toBe(true)
+  })
+
+  it('keeps an utterance sent right behind END', async () => {
+    const { pipeline, transcribed } = createPipeline()
+    const client = await start({ pipeline })
+
+    // Both utterances reach the server in one burst; the second interrupts the first
+    utterance(client)
+    utterance(client)
+
+    await client.next('response')
+    const [first, second] = client.json('header_received')
+    expect(second?.sessionId).not.toBe(first?.sessionId)
+    expect(client.json('error')).toEqual([])
+    expect(transcribed.length).toBeGreaterThan(0)
+    expect(transcribed.every(audio => audio.equals(speech))).toBe(true)
+  })
+
+  it('aborts generation when a header arrives mid-turn', async () => {
+    const { pipeline, aborted } = createPipeline('generation')
+    const client = await start({ pipeline })
+
+    utterance(client)
+    await client.next('transcription')
+    const mark = client.frames.length
+    client.send(header)
+
+    expect((await client.next('response_cancelled', mark)).reason).toBe('barge_in')
+    await client.next('session_ready', mark)
+    expect(aborted).toHaveLength(1)
+    expect(client.json('response')).toHaveLength(0)
+  })
+
+  it('stops downlink audio on barge-in', async () => {
+    const { pipeline } = createPipeline()
+    const client = await start({ pipeline, downlink: {} })
+
+    utterance(client)
+    await client.next('response')
+    while (!client.frames.some(frame => Buffer.isBuffer(frame) && frame.length === 640)) {
+      await sleep(10)
+    }
+    client.send(header)
+    await client.next('response_cancelled')
+    const cancelledAt = client.frames.findIndex(frame => !Buffer.isBuffer(frame) && frame.type === 'response_cancelled')
+
+    // Only the END marker that closes the downlink stream may follow
+    await sleep(300)
+    const after = client.frames.slice(cancelledAt + 1).filter((frame): frame is Buffer => Buffer.isBuffer(frame))
+    expect(after.every(frame => frame.toString('latin1') === 'END\0')).toBe(true)
+  })
+
+  it('drops a response queued behind other audio when it is cancelled', async () => {
+    const { pipeline } = createPipeline()
+    const client = await start({ pipeline, downlink: {} })
+    client.send({ type: 'hello', deviceId: 'kitchen' })
+    await client.next('hello_ack')
+
+    // A two-second announcement plays while the response waits behind it
+    const announcement = server!.speak('kitchen', Buffer.alloc(RATE * 4), { format: 'pcm', sampleRate: RATE })
+    await client.next('announcement')
+    utterance(client)
+    await client.next('response')
+    const mark = client.frames.length
+    client.send(header)
+
+    await client.next('response_cancelled', mark)
+    await client.next('session_ready', mark, 500)
+    expect((await announcement).delivered).toEqual(['kitchen'])
+
+    // Only the announcement was streamed
+    const streams = client.frames.filter(frame => Buffer.isBuffer(frame) && frame.toString('latin1', 0, 4) === 'PCM1')
+    expect(streams).toHaveLength(1)
+  })
+})
+
+describe('VoiceServer session timeouts', () => {
+  it('continues a stream that ran past maxDurationMs into the next session', async () => {
+    const { pipeline, transcribed } = createPipeline()
+    const client = await start({ pipeline, session: { maxDurationMs: 300, reapIntervalMs: 50 } })
+
+    client.send(header)
+    const chunk = Buffer.alloc(640, 1)
+    while (client.json('session_timeout').length === 0) {
+      client.send(chunk)
+      await sleep(20)
+    }
+    expect(client.json('session_timeout')[0]?.reason).toBe('max_duration')
+
+    // Audio after the timeout belongs to the next utterance, without a new header
+    for (let i = 0; i < 5; i++) {
+      client.send(chunk)
+    }
+    client.send('END\0')
+    await client.next('response')
+    expect(transcribed.at(-1)?.length).toBe(5 * 640)
+  })
+
+  it('requires a new header after an idle timeout', async () => {
+    const { pipeline, transcribed } = createPipeline()
+    const client = await start({ pipeline, session: { idleTimeoutMs: 100, reapIntervalMs: 50 } })
+
+    client.send(header)
+    client.send(speech)
+    expect((await client.next('session_timeout')).reason).toBe('idle')
+
+    client.send(speech)
+    client.send('END\0')
+    await client.next('session_ready', client.frames.length)
+    expect(transcribed).toHaveLength(0)
+  })
+})
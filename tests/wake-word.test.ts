@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import { TemplateWakeWordPlugin } from '../src/plugins/wake-word.js'
+import { resamplePcm16 } from '../src/core/resampler.js'
+import type { PcmHeader } from '../src/types/index.js'
+
+const RATE = 16000
+
+/** Deterministic noise source (mulberry32) */
+function createNoise(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 * 2 - 1
+  }
+}
+
+/**
+ * Voiced "syllables" of harmonics under a sine envelope, separated by short gaps
+ * @param syllables Fundamental frequency and duration of each syllable
+ */
+function speech(syllables: Array<[number, number]>, gain = 0.3, noise = 0, seed = 1): Buffer {
+  const random = createNoise(seed)
+  const samples: number[] = []
+  for (const [f0, ms] of syllables) {
+    const count = Math.round(RATE * ms / 1000)
+    for (let i = 0; i < count; i++) {
+      let value = 0
+      for (let harmonic = 1; harmonic <= 6; harmonic++) {
+        value += Math.sin(2 * Math.PI * f0 * harmonic * i / RATE) / harmonic
+      }
+      samples.push(gain * Math.sin(Math.PI * i / count) * value * 0.5 + noise * random())
+    }
+    for (let i = 0; i < RATE * 0.05; i++) {
+      samples.push(noise * random())
+    }
+  }
+  return toPcm(samples)
+}
+
+function background(ms: number, level = 0.003, seed = 2): Buffer {
+  const random = createNoise(seed)
+  return toPcm(Array.from({ length: Math.round(RATE * ms / 1000) }, () => level * random()))
+}
+
+function toPcm(samples: number[]): Buffer {
+  const out = Buffer.alloc(samples.length * 2)
+  samples.forEach((value, i) => {
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value * 32767))), i * 2)
+  })
+  return out
+}
+
+function header(channels = 1, sampleRate = RATE): PcmHeader {
+  return { sample_rate: sampleRate, channels, bits: 16, reserved: 0, frame_samps: 320 }
+}
+
+/** Feed audio in chunks and return the most confident detection */
+function detect(plugin: TemplateWakeWordPlugin, audio: Buffer, chunkBytes = 640, streamHeader = header()) {
+  const detector = plugin.createDetector(streamHeader)
+  let best: { keyword: string; confidence: number } | null = null
+  for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+    const detection = detector.process(audio.subarray(offset, offset + chunkBytes))
+    if (detection && detection.confidence > (best?.confidence ?? 0)) {
+      best = detection
+    }
+  }
+  return best
+}
+
+const KEYWORD: Array<[number, number]> = [[220, 150], [330, 200], [180, 250]]
+// Recorded templates carry some room noise rather than digital silence between syllables
+const keyword = speech(KEYWORD, 0.3, 0.001)
+const surround = (audio: Buffer) => Buffer.concat([background(500), audio, background(500, 0.003, 3)])
+
+describe('TemplateWakeWordPlugin', () => {
+  const plugin = new TemplateWakeWordPlugin([{ keyword: 'hey device', audio: keyword, sampleRate: RATE }])
+
+  it('fires on its own template', () => {
+    const detection = detect(plugin, surround(keyword))
+    expect(detection?.keyword).toBe('hey device')
+    expect(detection!.confidence).toBeGreaterThan(0.9)
+  })
+
+  it('fires on a noisier take of the keyword', () => {
+    const detection = detect(plugin, surround(speech(KEYWORD, 0.3, 0.003, 4)))
+    expect(detection?.keyword).toBe('hey device')
+  })
+
+  it('ignores other words', () => {
+    expect(detect(plugin, surround(speech([[330, 150], [180, 200], [220, 250]])))).toBeNull()
+    expect(detect(plugin, surround(speech([[150, 300], [400, 300]])))).toBeNull()
+  })
+
+  it('ignores noise and silence', () => {
+    expect(detect(plugin, background(2000, 0.1, 5))).toBeNull()
+    expect(detect(plugin, Buffer.alloc(RATE * 2 * 2))).toBeNull()
+  })
+
+  it('reports the same confidence for any chunking', () => {
+    const audio = surround(keyword)
+    const small = detect(plugin, audio, 320)
+    const large = detect(plugin, audio, 8000)
+    expect(small).not.toBeNull()
+    expect(large?.confidence).toBeCloseTo(small!.confidence, 6)
+  })
+
+  it('matches templates recorded at another sample rate', () => {
+    const wideband = new TemplateWakeWordPlugin([{
+      keyword: 'hey device',
+      audio: resamplePcm16(keyword, RATE, 48000),
+      sampleRate: 48000
+    }])
+    expect(detect(wideband, surround(keyword))!.confidence).toBeGreaterThan(0.7)
+  })
+
+  it('analyzes multi-channel streams', () => {
+    const mono = surround(keyword)
+    const stereo = Buffer.alloc(mono.length * 2)
+    for (let i = 0; i < mono.length / 2; i++) {
+      stereo.writeInt16LE(mono.readInt16LE(i * 2), i * 4)
+      stereo.writeInt16LE(mono.readInt16LE(i * 2), i * 4 + 2)
+    }
+    expect(detect(plugin, stereo, 1280, header(2))?.keyword).toBe('hey device')
+  })
+
+  it('forgets earlier audio on reset', () => {
+    const detector = plugin.createDetector(header())
+    const half = keyword.length / 2
+    detector.process(Buffer.concat([background(300), keyword.subarray(0, half)]))
+    detector.reset()
+
+    let detection = detector.process(keyword.subarray(half))
+    detection ??= detector.process(background(300))
+    expect(detection).toBeNull()
+  })
+
+  it('reports the best template when several match', () => {
+    const other = speech([[150, 300], [400, 300]])
+    const multi = new TemplateWakeWordPlugin([
+      { keyword: 'other', audio: other, sampleRate: RATE },
+      { keyword: 'hey device', audio: keyword, sampleRate: RATE }
+    ])
+    expect(detect(multi, surround(keyword))?.keyword).toBe('hey device')
+    expect(detect(multi, surround(other))?.keyword).toBe('other')
+  })
+
+  it('rejects missing or silent templates', () => {
+    expect(() => new TemplateWakeWordPlugin([])).toThrow()
+    const silent = new TemplateWakeWordPlugin([{ keyword: 'quiet', audio: Buffer.alloc(RATE * 2), sampleRate: RATE }])
+    expect(() => silent.createDetector(header())).toThrow('empty')
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import type { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+import { VoiceWebSocketServer, type WebSocketConfig } from '../src/core/websocket.js'
+
+type Json = Record<string, unknown>
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/** Connect and collect text frames as JSON and binary frames as buffers */
+async function connect(url: string): Promise<{ ws: WebSocket; frames: Array<Json | Buffer> }> {
+  const ws = new WebSocket(url)
+  const frames: Array<Json | Buffer> = []
+  ws.on('message', (data: Buffer, isBinary: boolean) => {
+    frames.push(isBinary ? data : JSON.parse(data.toString('utf8')))
+  })
+  await new Promise<void>((resolve, reject) => {
+    ws.once('open', () => resolve())
+    ws.once('error', reject)
+  })
+  // connection_established is sent right after the upgrade
+  while (frames.length === 0) {
+    await sleep(5)
+  }
+  return { ws, frames }
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out')
+    }
+    await sleep(5)
+  }
+}
+
+describe('VoiceWebSocketServer resumption', () => {
+  let server: VoiceWebSocketServer | null = null
+  const sockets: WebSocket[] = []
+
+  /** Start a server that records the connection identity and lifecycle events */
+  async function start(config: Partial<WebSocketConfig> = {}) {
+    const events: string[] = []
+    let connection: WebSocket | null = null
+    server = new VoiceWebSocketServer({ port: 0, host: '127.0.0.1', resumeGraceMs: 500, ...config }, {
+      onConnection: (ws) => { connection ??= ws },
+      onDetach: () => { events.push('detach') },
+      onResume: () => { events.push('resume') },
+      onClose: () => { events.push('close') }
+    })
+    server.start()
+    const http = server.getHttpServer()!
+    if (!http.listening) {
+      await new Promise<void>((resolve) => http.once('listening', resolve))
+    }
+    const url = `ws://127.0.0.1:${(http.address() as AddressInfo).port}/pcm/stream`
+
+    const first = await connect(url)
+    sockets.push(first.ws)
+    const established = first.frames[0] as Json
+    return { url, events, first, established, connection: () => connection! }
+  }
+
+  /** Drop the client's socket without a close handshake, as a Wi-Fi loss would */
+  async function drop(ws: WebSocket, events: string[]): Promise<void> {
+    ws.terminate()
+    await waitFor(() => events.includes('detach') || events.includes('close'))
+  }
+
+  async function reconnect(url: string, token: unknown) {
+    const client = await connect(`${url}?resume=${token}`)
+    sockets.push(client.ws)
+    return client
+  }
+
+  afterEach(async () => {
+    for (const ws of sockets.splice(0)) {
+      ws.terminate()
+    }
+    await server?.stop()
+    server = null
+  })
+
+  it('resumes within the grace window and delivers held output', async () => {
+    const { url, events, first, established, connection } = await start()
+    expect(established.resumeToken).toEqual(expect.any(String))
+
+    await drop(first.ws, events)
+    expect(server!.sendJson(connection(), { type: 'held' })).toBe(true)
+    expect(server!.send(connection(), Buffer.from([1, 2, 3]))).toBe(true)
+
+    const resumed = await reconnect(url, established.resumeToken)
+    await waitFor(() => resumed.frames.length === 3)
+    const [ack, text, audio] = resumed.frames
+    expect(ack).toMatchObject({ type: 'session_resumed', sessionId: established.sessionId, streaming: false })
+    expect(text).toEqual({ type: 'held' })
+    expect(audio).toEqual(Buffer.from([1, 2, 3]))
+    expect(events).toEqual(['detach', 'resume'])
+
+    // The connection identity passed to handlers stays the same, and sends go to the new socket
+    expect(server!.sendJson(connection(), { type: 'live' })).toBe(true)
+    await waitFor(() => resumed.frames.length === 4)
+  })
+
+  it('holds output only up to maxHeldBytes', async () => {
+    const { url, events, first, established, connection } = await start({ maxHeldBytes: 10 })
+    await drop(first.ws, events)
+
+    expect(server!.send(connection(), Buffer.alloc(8))).toBe(true)
+    expect(server!.send(connection(), Buffer.alloc(8))).toBe(false)
+
+    const resumed = await reconnect(url, established.resumeToken)
+    await sleep(100)
+    expect(resumed.frames.filter(frame => Buffer.isBuffer(frame))).toHaveLength(1)
+  })
+
+  it('closes the connection once the grace window passes', async () => {
+    const { url, events, first, established, connection } = await start({ resumeGraceMs: 100 })
+    await drop(first.ws, events)
+    await waitFor(() => events.includes('close'))
+    expect(server!.sendJson(connection(), { type: 'late' })).toBe(false)
+
+    const fresh = await reconnect(url, established.resumeToken)
+    await waitFor(() => fresh.frames.length === 2)
+    expect(fresh.frames[0]).toMatchObject({ type: 'connection_established' })
+    expect((fresh.frames[0] as Json).sessionId).not.toBe(established.sessionId)
+    expect(fresh.frames[1]).toMatchObject({ type: 'error', code: 'resume_failed' })
+  })
+
+  it('rejects unknown tokens', async () => {
+    const { url } = await start()
+    const fresh = await reconnect(url, 'not-a-token')
+    await waitFor(() => fresh.frames.length === 2)
+    expect(fresh.frames[1]).toMatchObject({ type: 'error', code: 'resume_failed' })
+  })
+
+  it('accepts each token once', async () => {
+    const { url, events, first, established } = await start()
+    await drop(first.ws, events)
+    const resumed = await reconnect(url, established.resumeToken)
+    await waitFor(() => resumed.frames.length === 1)
+    const ack = resumed.frames[0] as Json
+    expect(ack.resumeToken).toEqual(expect.any(String))
+    expect(ack.resumeToken).not.toBe(established.resumeToken)
+
+    // Replaying the used token neither resumes nor disturbs the resumed connection
+    const replay = await reconnect(url, established.resumeToken)
+    await waitFor(() => replay.frames.length === 2)
+    expect(replay.frames[1]).toMatchObject({ type: 'error', code: 'resume_failed' })
+    expect(resumed.ws.readyState).toBe(WebSocket.OPEN)
+    expect(events).toEqual(['detach', 'resume'])
+  })
+
+  it('does not make connections resumable without a grace window', async () => {
+    const { events, first, established } = await start({ resumeGraceMs: 0 })
+    expect(established.resumeToken).toBeUndefined()
+    await drop(first.ws, events)
+    expect(events).toEqual(['close'])
+  })
+})